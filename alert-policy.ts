@@ -0,0 +1,137 @@
+import { FailedTestSummary, RunSummary, restrictFailures } from "./notifications";
+
+// Politique d'alerte : décide si un run doit déclencher les notifications
+export interface AlertPolicy {
+  /** Nombre minimum d'échecs pour alerter (défaut: 1) */
+  minFailures?: number;
+  /** Pourcentage minimum d'échecs parmi les tests exécutés (hors skipped), de 0 à 100 */
+  minFailurePercent?: number;
+  /** N'alerter que s'il y a au moins un nouvel échec depuis le run précédent */
+  onlyNewFailures?: boolean;
+  /** Envoyer un résumé "all passed" quand le run est vert (runs planifiés) */
+  notifyOnSuccess?: boolean;
+  /** Échecs ignorés pour l'alerte : ils restent dans les rapports mais pas dans les notifications */
+  suppress?: {
+    /** Tags Playwright, avec ou sans "@" (ex: "@known-issue", "wip") */
+    tags?: string[];
+    /** Valeurs de dimensions du schéma de tags, ex: { realm: ["CN"], payment_method: ["paypal"] } */
+    dimensions?: { [dimension: string]: string[] };
+  };
+}
+
+export interface AlertDecision {
+  notify: boolean;
+  kind: "failure" | "success" | "none";
+  /** Raison de la décision, affichée dans les logs */
+  reason: string;
+  /** Résumé à envoyer, sans les échecs supprimés par la politique */
+  summary: RunSummary;
+  suppressedTests: FailedTestSummary[];
+}
+
+// Fonction pour comparer des tags sans tenir compte du "@" ni de la casse
+export function normalizeTag(tag: string): string {
+  return tag.replace(/^@/, "").toLowerCase();
+}
+
+// Fonction pour convertir une liste "dimension:valeur" (ex: ALERT_SUPPRESS_DIMENSIONS) en valeurs par dimension
+export function parseDimensionValues(entries: string[]): { [dimension: string]: string[] } {
+  const dimensions: { [dimension: string]: string[] } = {};
+  for (const entry of entries) {
+    const separator = entry.indexOf(":");
+    if (separator <= 0) continue;
+    const dimension = entry.slice(0, separator).replace(/^@/, "");
+    dimensions[dimension] = [...(dimensions[dimension] || []), entry.slice(separator + 1)];
+  }
+  return dimensions;
+}
+
+// Fonction pour savoir si un échec est ignoré par la politique
+function isSuppressed(test: FailedTestSummary, suppress: AlertPolicy["suppress"] = {}): boolean {
+  const tags = (suppress.tags || []).map(normalizeTag);
+  return (
+    test.tags.some((tag) => tags.includes(normalizeTag(tag))) ||
+    Object.entries(suppress.dimensions || {}).some(([dimension, values]) => {
+      const value = test.dimensions[dimension];
+      return (Array.isArray(value) ? value : [value]).some((v) => v !== undefined && values.includes(v));
+    })
+  );
+}
+
+// Fonction pour retirer les échecs supprimés du résumé
+function withoutSuppressed(summary: RunSummary, policy: AlertPolicy) {
+  const suppressedTests = Array.from(summary.failedTests.values())
+    .flat()
+    .filter((test) => isSuppressed(test, policy.suppress));
+  if (!suppressedTests.length) return { summary, suppressedTests };
+  return { summary: restrictFailures(summary, (test) => !suppressedTests.includes(test)), suppressedTests };
+}
+
+// Fonction pour évaluer la politique d'alerte sur le résumé du run
+export function evaluateAlertPolicy(runSummary: RunSummary, policy: AlertPolicy = {}): AlertDecision {
+  const { summary, suppressedTests } = withoutSuppressed(runSummary, policy);
+  const decide = (notify: boolean, kind: AlertDecision["kind"], reason: string): AlertDecision => ({
+    notify,
+    kind,
+    reason,
+    summary,
+    suppressedTests,
+  });
+
+  const executed = summary.stats.total - summary.stats.skipped;
+  const failurePercent = executed > 0 ? (summary.totalFailed / executed) * 100 : 0;
+  const failures = `${summary.totalFailed} failure(s) (${failurePercent.toFixed(1)}% of ${executed} executed), ${summary.newFailures} new`;
+
+  // Une erreur globale (global setup, crash de worker) n'est liée à aucun test : toujours notifiée
+  if (summary.globalErrors.length > 0) {
+    return decide(true, "failure", `${summary.globalErrors.length} global error(s) outside tests, ${failures}`);
+  }
+  if (summary.totalFailed === 0) {
+    if (suppressedTests.length) {
+      return decide(false, "none", `all ${suppressedTests.length} failure(s) are suppressed by the alert policy`);
+    }
+    if (policy.notifyOnSuccess) {
+      return decide(true, "success", "run passed and notifyOnSuccess is enabled");
+    }
+    return decide(false, "none", summary.flakyTests.length
+      ? `no failure (${summary.flakyTests.length} flaky test(s) passed on retry)`
+      : "no failure");
+  }
+  if (policy.onlyNewFailures && summary.newFailures === 0) {
+    return decide(false, "none", `${failures}: onlyNewFailures is enabled and no failure is new`);
+  }
+  if (policy.minFailures !== undefined && summary.totalFailed < policy.minFailures) {
+    return decide(false, "none", `${failures}: below minFailures (${policy.minFailures})`);
+  }
+  if (policy.minFailurePercent !== undefined && failurePercent < policy.minFailurePercent) {
+    return decide(false, "none", `${failures}: below minFailurePercent (${policy.minFailurePercent}%)`);
+  }
+  return decide(true, "failure", `${failures}: alert policy thresholds met`);
+}
+
+// Fonction pour afficher la décision de la politique d'alerte
+export function logAlertDecision(decision: AlertDecision): void {
+  if (decision.suppressedTests.length) {
+    console.log(
+      `🔕 ${decision.suppressedTests.length} failure(s) suppressed by the alert policy: ` +
+      decision.suppressedTests.map((test) => test.title).join(", ")
+    );
+  }
+  if (decision.notify) console.log(`📣 Alert policy: notifying (${decision.kind}) — ${decision.reason}.`);
+  else console.log(`🔕 Alert policy: no notification — ${decision.reason}.`);
+}
+
+// Fonction pour valider une politique d'alerte, retourne la liste des problèmes
+export function validateAlertPolicy(policy: AlertPolicy, prefix = "alertPolicy"): string[] {
+  const problems: string[] = [];
+  if (policy.minFailures !== undefined && (!Number.isInteger(policy.minFailures) || policy.minFailures < 1)) {
+    problems.push(`${prefix}.minFailures must be a positive integer`);
+  }
+  if (
+    policy.minFailurePercent !== undefined &&
+    (!Number.isFinite(policy.minFailurePercent) || policy.minFailurePercent < 0 || policy.minFailurePercent > 100)
+  ) {
+    problems.push(`${prefix}.minFailurePercent must be between 0 and 100`);
+  }
+  return problems;
+}
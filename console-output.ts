@@ -0,0 +1,50 @@
+import type { ParsedError } from "./report-model";
+import { escapeHtml } from "./html-escape";
+import { MONO_FONT_STACK } from "./report-assets";
+import { ErrorLabels, renderErrorsHtml } from "./error-details";
+
+// Styles des panneaux de sortie console et de la section des erreurs globales
+export const consoleOutputStyles = `
+  .console-output { margin: 10px 0; font-size: 13px; }
+  .console-output summary { cursor: pointer; color: #0e4ba1; font-weight: bold; }
+  .console-output pre { font-family: ${MONO_FONT_STACK}; font-size: 12px; background: #1e1e1e; color: #e0e0e0; border-radius: 5px; padding: 10px; max-height: 400px; overflow: auto; white-space: pre-wrap; word-break: break-word; margin: 6px 0; }
+  .console-output pre.stderr { color: #ff8a80; }
+  .global-errors { background: #fff0f0; border: 2px solid #d63031; border-radius: 8px; padding: 14px 18px; margin: 16px 0; }
+  .global-errors h2 { color: #d63031; margin: 0 0 6px 0; font-size: 1.2em; }
+  .global-errors p { margin: 0 0 8px 0; color: #555; }
+`;
+
+// Fonction pour générer le panneau repliable stdout / stderr d'un test, vide s'il n'y a aucune sortie
+export function renderConsoleOutputHtml(stdout: string | undefined, stderr: string | undefined, label: string): string {
+  if (!stdout && !stderr) return "";
+  return `
+    <details class="console-output">
+      <summary>🖥️ ${escapeHtml(label)}</summary>
+      ${stdout ? `<pre class="stdout">${escapeHtml(stdout)}</pre>` : ""}
+      ${stderr ? `<pre class="stderr">${escapeHtml(stderr)}</pre>` : ""}
+    </details>`;
+}
+
+// Libellés de la section des erreurs globales
+export interface GlobalErrorsLabels {
+  title: string;
+  description: string;
+  output: string;
+}
+
+// Fonction pour générer la section des erreurs hors test (global setup, crash de worker...) en haut des rapports
+export function renderGlobalErrorsHtml(
+  errors: ParsedError[],
+  runnerOutput: { stdout?: string; stderr?: string },
+  labels: GlobalErrorsLabels,
+  errorLabels: ErrorLabels
+): string {
+  if (errors.length === 0) return "";
+  return `
+    <div class="global-errors">
+      <h2>🚨 ${escapeHtml(labels.title)} (${errors.length})</h2>
+      <p>${escapeHtml(labels.description)}</p>
+      ${renderErrorsHtml(errors, errorLabels)}
+      ${renderConsoleOutputHtml(runnerOutput.stdout, runnerOutput.stderr, labels.output)}
+    </div>`;
+}
@@ -0,0 +1,148 @@
+import { StatusBadgeLabels, TestRecord, statusBadge } from "./report-model";
+import { escapeHtml } from "./html-escape";
+import { formatTagValue } from "./tag-schema";
+
+// Axes de la grille : deux dimensions du schéma de tags, ex: { rows: "realm", columns: "local" }
+export interface CoverageAxes {
+  rows: string;
+  columns: string;
+}
+
+// Combinaisons attendues : valeur de ligne -> liste des valeurs de colonne à couvrir, ex: { EU: ["FR", "DE"] }
+export type ExpectedCoverage = { [row: string]: string[] };
+
+export interface CoverageCell {
+  passed: number;
+  failed: number;
+  flaky: number;
+  skipped: number;
+  tests: TestRecord[];
+}
+
+export interface CoverageMatrix {
+  rows: string[];
+  columns: string[];
+  cells: Map<string, CoverageCell>;
+  /** Combinaisons attendues sans aucun test */
+  gaps: Array<{ row: string; column: string }>;
+}
+
+function cellKey(row: string, column: string): string {
+  return `${row}\u0000${column}`;
+}
+
+// Fonction pour lister les valeurs d'un test sur un axe, une dimension multiple compte dans chaque valeur
+function axisValues(record: TestRecord, dimension: string): string[] {
+  const value = record.dimensions[dimension];
+  if (value === undefined) return [formatTagValue(value)];
+  return Array.isArray(value) ? value : [value];
+}
+
+// Fonction pour construire la grille lignes x colonnes à partir des résultats
+export function buildCoverageMatrix(
+  records: TestRecord[],
+  axes: CoverageAxes,
+  expected: ExpectedCoverage = {}
+): CoverageMatrix {
+  const rows = new Set<string>(Object.keys(expected));
+  const columns = new Set<string>(Object.values(expected).flat());
+  const cells = new Map<string, CoverageCell>();
+
+  for (const record of records) {
+    for (const row of axisValues(record, axes.rows)) {
+      for (const column of axisValues(record, axes.columns)) {
+        rows.add(row);
+        columns.add(column);
+        const key = cellKey(row, column);
+        const cell = cells.get(key) || { passed: 0, failed: 0, flaky: 0, skipped: 0, tests: [] };
+        if (record.outcome === "expected") cell.passed++;
+        else if (record.outcome === "unexpected") cell.failed++;
+        else if (record.outcome === "flaky") cell.flaky++;
+        else if (record.outcome === "skipped") cell.skipped++;
+        cell.tests.push(record);
+        cells.set(key, cell);
+      }
+    }
+  }
+
+  const gaps = Object.entries(expected).flatMap(([row, expectedColumns]) =>
+    expectedColumns.filter((column) => !cells.has(cellKey(row, column))).map((column) => ({ row, column }))
+  );
+
+  return {
+    rows: Array.from(rows).sort(),
+    columns: Array.from(columns).sort(),
+    cells,
+    gaps,
+  };
+}
+
+// Styles de la grille de couverture
+export const coverageMatrixStyles = `
+  .coverage { overflow-x: auto; margin-top: 18px; }
+  .coverage table { border-collapse: collapse; font-size: 13px; background: #fff; }
+  .coverage th, .coverage td { border: 1px solid #e0e0e0; padding: 6px 10px; text-align: center; }
+  .coverage th { background: #0e4ba1; color: #fff; }
+  .coverage td a { text-decoration: none; color: inherit; display: block; }
+  .coverage td.ok { background: #eafaf1; }
+  .coverage td.ko { background: #ffeaea; }
+  .coverage td.gap { background: #fff3cd; color: #b9770e; font-weight: bold; }
+  .coverage td.empty { color: #bbb; }
+  .coverage-list { display: none; margin-top: 10px; background: #f1f1f1; padding: 10px; border-radius: 5px; font-size: 13px; text-align: left; }
+  .coverage-list:target { display: block; }
+`;
+
+// Libellés de la grille de couverture, dans la langue du rapport
+export interface CoverageLabels {
+  /** En-tête de la première colonne, ex: "Realm \ Local" */
+  corner: (rows: string, columns: string) => string;
+  gap: string;
+  gapTitle: string;
+  gaps: string;
+  statusBadges: StatusBadgeLabels;
+}
+
+// Fonction pour générer la grille HTML, chaque cellule renvoie vers la liste filtrée de ses tests
+// axisLabels : libellés des dimensions en ligne et en colonne
+export function renderCoverageMatrixHtml(
+  matrix: CoverageMatrix,
+  labels: CoverageLabels,
+  axisLabels: { rows: string; columns: string }
+): string {
+  if (matrix.rows.length === 0 || matrix.columns.length === 0) return "";
+
+  const lists: string[] = [];
+  const rows = matrix.rows.map((row, r) => {
+    const cells = matrix.columns.map((column, c) => {
+      const cell = matrix.cells.get(cellKey(row, column));
+      if (!cell) {
+        const isGap = matrix.gaps.some((gap) => gap.row === row && gap.column === column);
+        return isGap ? `<td class="gap" title="${escapeHtml(labels.gapTitle)}">⚠️ ${escapeHtml(labels.gap)}</td>` : `<td class="empty">—</td>`;
+      }
+
+      const id = `coverage-r${r}-c${c}`;
+      lists.push(`
+        <div class="coverage-list" id="${id}">
+          <b>${escapeHtml(row)} × ${escapeHtml(column)}</b>
+          <ul>${cell.tests
+            .map((t) => `<li><span class="status-${t.outcome === "flaky" ? "flaky" : t.status}">${escapeHtml(statusBadge(t, labels.statusBadges))}</span> ${escapeHtml(t.title)} — 📁 ${escapeHtml(t.location)}</li>`)
+            .join("")}</ul>
+        </div>`);
+      return `<td class="${cell.failed > 0 ? "ko" : "ok"}"><a href="#${id}">✅ ${cell.passed} / ❌ ${cell.failed} / ⏭️ ${cell.skipped}${cell.flaky ? ` / 🔁 ${cell.flaky}` : ""}</a></td>`;
+    });
+    return `<tr><th>${escapeHtml(row)}</th>${cells.join("")}</tr>`;
+  });
+
+  return `
+    <div class="coverage">
+      <table>
+        <tr><th>${escapeHtml(labels.corner(axisLabels.rows, axisLabels.columns))}</th>${matrix.columns.map((column) => `<th>${escapeHtml(column)}</th>`).join("")}</tr>
+        ${rows.join("")}
+      </table>
+      ${matrix.gaps.length
+        ? `<div style="margin-top:8px;color:#b9770e;"><b>⚠️ ${escapeHtml(labels.gaps)}:</b> ${matrix.gaps.map((g) => `${escapeHtml(g.row)} × ${escapeHtml(g.column)}`).join(", ")}</div>`
+        : ""}
+      ${lists.join("")}
+    </div>
+  `;
+}
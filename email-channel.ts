@@ -0,0 +1,419 @@
+import fs from "fs";
+import nodemailer from "nodemailer";
+import path from "path";
+import {
+  NotificationChannel,
+  RetryPolicy,
+  RunSummary,
+  describeRunTiming,
+  hasFailures,
+  summaryHeadline,
+  summaryLabel,
+} from "./notifications";
+import { describeAttempts } from "./report-model";
+import { selectEmailScreenshots } from "./report-attachments";
+import { describeTrend } from "./run-history";
+import { dimensionKeys, formatTagValue } from "./tag-schema";
+import { escapeHtml } from "./html-escape";
+import { MONO_FONT_STACK, SANS_FONT_STACK } from "./report-assets";
+import { describeClusterDimensions, failureClusterStyles, renderFailureClustersHtml } from "./failure-clusters";
+
+export interface EmailChannelOptions {
+  /** Nom du canal dans les logs (défaut: "email") */
+  name?: string;
+  enabled?: boolean;
+  retry?: RetryPolicy;
+  smtp: {
+    host: string;
+    port: number;
+    secure?: boolean;
+    auth?: { user: string; pass: string };
+    tls?: { rejectUnauthorized?: boolean; servername?: string };
+  };
+  from: string;
+  to: string[];
+  cc?: string[];
+  /** Préfixe du sujet, la date est ajoutée à la suite */
+  subject: string;
+  /** Signature en pied de l'email, ex: "QA Team — qa@example.com" (défaut: aucune) */
+  footer?: string;
+  /** Fichier joint à l'email, à défaut le rapport préparé par le reporter (summary.reportBundle) */
+  attachmentPath?: string;
+  /** Taille totale max des captures intégrées à l'email, en octets */
+  screenshotMaxBytes: number;
+}
+
+// Fonction pour générer un rapport HTML simplifié pour l'email avec tableaux dynamiques
+function renderEmailHtml(
+  summary: RunSummary,
+  emailScreenshots: Map<string, { filename: string; path: string; cid: string }>,
+  footer?: string
+): string {
+  const { i18n } = summary;
+  const { common, run, email } = i18n.messages;
+  const flakyKeys = dimensionKeys(summary.tagSchema, summary.flakyTests.map((t) => t.dimensions));
+  const fixedKeys = dimensionKeys(summary.tagSchema, summary.fixedTests.map((t) => t.dimensions));
+  return `
+    <!DOCTYPE html>
+    <html lang="${i18n.locale}">
+    <head>
+      <meta charset="UTF-8" />
+      <title>${escapeHtml(summary.title)}</title>
+      <style>
+        body {
+          font-family: ${SANS_FONT_STACK};
+          color: #222;
+          background: #f4f4f4;
+          margin: 0;
+          padding: 0;
+        }
+        .email-container {
+          max-width: 900px;
+          margin: 0 auto;
+          background: #fff;
+          border-radius: 8px;
+          box-shadow: 0 2px 8px rgba(0,0,0,0.07);
+          padding: 32px 24px;
+        }
+        h1 {
+          color: #d63031;
+          font-size: 2em;
+          margin-bottom: 10px;
+          font-weight: bold;
+        }
+        p {
+          font-size: 1em;
+          margin-bottom: 18px;
+        }
+        h2 {
+          color: #0e4ba1;
+          font-size: 1.1em;
+          margin: 20px 0 10px 0;
+        }
+        table {
+          width: 100%;
+          border-collapse: collapse;
+          margin-bottom: 18px;
+          background: #fff;
+          border-radius: 6px;
+          overflow: hidden;
+          box-shadow: 0 1px 4px rgba(0,0,0,0.06);
+        }
+        th, td {
+          border: 1px solid #e0e0e0;
+          padding: 8px 6px;
+          text-align: left;
+          font-size: 0.98em;
+        }
+        th {
+          background: #0e4ba1;
+          color: #fff;
+          font-weight: bold;
+        }
+        tr:nth-child(even) {
+          background: #f4f8fb;
+        }
+        tr:nth-child(odd) {
+          background: #fff;
+        }
+        .error {
+          color: #b71c1c;
+          font-family: ${MONO_FONT_STACK};
+          white-space: pre-wrap;
+          background: #ffeaea;
+          padding: 6px;
+          border-radius: 3px;
+          font-weight: bold;
+          border: 1px solid #d63031;
+        }
+        .details {
+          font-size: 0.97em;
+        }
+        .details div {
+          margin: 4px 0;
+        }
+        .details span {
+          font-weight: bold;
+          display: inline-block;
+          width: 80px;
+          color: #0e4ba1;
+        }
+        .tags {
+          font-size: 0.95em;
+          color: #2f4f4f;
+          background: #eafcda;
+          padding: 3px 8px;
+          border-radius: 3px;
+        }
+        .execution-time {
+          font-family: ${SANS_FONT_STACK};
+          background: #27ae60;
+          color: #fff;
+          font-weight: bold;
+          font-size: 1.1em;
+          border-radius: 8px;
+          padding: 10px 20px;
+          margin: 0 auto 18px auto;
+          max-width: 900px;
+          text-align: center;
+          box-shadow: 0 1px 6px rgba(39,174,96,0.10);
+          letter-spacing: 1px;
+        }
+        ${failureClusterStyles}
+        footer {
+          margin-top: 24px;
+          font-size: 0.95em;
+          color: #999;
+          text-align: center;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="email-container">
+        <h1 style="color:${hasFailures(summary) ? "#d63031" : "#27ae60"};">${escapeHtml(summaryHeadline(summary))}</h1>
+        <p>${escapeHtml(email.greeting)}</p>
+        <div class="execution-time">
+          ⏳ ${escapeHtml(run.runDuration)}: ${escapeHtml(describeRunTiming(summary))}
+        </div>
+        <p>${escapeHtml(hasFailures(summary) ? email.intro : email.allPassed)}</p>
+        ${renderBundleNoteHtml(summary)}
+        <div style="margin-bottom:14px;">
+          ${run.describeBlocks(`<strong>${summary.failedTests.size}</strong>`)}<br>
+          ${run.totalFailed(`<strong>${summary.totalFailed}</strong>`)}<br>
+          ${run.flaky(`<strong>${summary.flakyTests.length}</strong>`)}<br>
+          ${run.newAndFixed(`<strong>${summary.newFailures}</strong>`, `<strong>${summary.fixedTests.length}</strong>`)}
+          <br>${run.generatedOn(`<strong>${escapeHtml(i18n.formatDate(summary.generatedAt))}</strong>`)}
+        </div>
+        ${summary.globalErrors.length ? `
+        <div style="border:2px solid #d63031;border-radius:6px;padding:10px 14px;margin-bottom:14px;background:#fff0f0;">
+          <strong style="color:#d63031;">🚨 ${escapeHtml(run.globalErrors(summary.globalErrors.length))}</strong> (${escapeHtml(run.globalErrorsHint)}):
+          ${summary.globalErrors.map((error) => `<pre style="white-space:pre-wrap;color:#b71c1c;margin:6px 0;">${escapeHtml(error.rawError)}</pre>`).join("")}
+        </div>` : ""}
+        ${renderFailureClustersHtml(summary.failureClusters, i18n.messages.failureClusters)}
+        ${Array.from(summary.failedTests.entries())
+        .map(([describeName, tests]) => {
+          const keys = summary.dimensionKeysByDescribe[describeName] || [];
+          const showOwners = tests.some((t) => t.owners?.length);
+          return `
+          <div>
+            <h2>${escapeHtml(describeName)} (${escapeHtml(common.failedTests(tests.length))})</h2>
+            <table>
+              <tr>
+                <th>${escapeHtml(common.test)}</th>
+                ${showOwners ? `<th>${escapeHtml(common.owners)}</th>` : ""}
+                <th>${escapeHtml(common.trend)}</th>
+                ${keys.map((key) => `<th>${escapeHtml(summaryLabel(summary, key))}</th>`).join("")}
+                <th>${escapeHtml(common.failedStep)}</th>
+                <th>${escapeHtml(common.error)}</th>
+                <th>${escapeHtml(common.details)}</th>
+              </tr>
+              ${tests
+              .map(
+                (t) => `
+                <tr>
+                  <td>${escapeHtml(t.title)}</td>
+                  ${showOwners ? `<td>${escapeHtml(t.owners?.join(", ") || "-")}</td>` : ""}
+                  <td>${escapeHtml(describeTrend(t.trend, i18n.messages.trend))}</td>
+                  ${keys.map((key) => `<td>${escapeHtml(formatTagValue(t.dimensions[key]))}</td>`).join("")}
+                  <td>${escapeHtml(t.failedStep || "-")}</td>
+                  <td class="error">${escapeHtml(t.rawError)}</td>
+                  <td class="details">
+                    ${(t.expected.length || t.actual.length) ? `
+                      ${t.expected.map((e, i) => `<div><span>${escapeHtml(common.expected)} ${i + 1}:</span> ${escapeHtml(e)}</div>`).join("")}
+                      ${t.actual.map((a, i) => `<div><span>${escapeHtml(common.actual)} ${i + 1}:</span> ${escapeHtml(a)}</div>`).join("")}
+                    ` : escapeHtml(common.noDetails)}
+                    ${emailScreenshots.has(t.id)
+                      ? `<div><img src="cid:${emailScreenshots.get(t.id).cid}" alt="${escapeHtml(email.screenshot)}" style="max-width:260px;border:1px solid #ccc;border-radius:4px;"/></div>`
+                      : ""}
+                  </td>
+                </tr>
+              `
+              )
+              .join("")}
+            </table>
+          </div>
+        `;
+        })
+        .join("")}
+        ${summary.flakyTests.length ? `
+          <div>
+            <h2>🔁 ${escapeHtml(run.flakyTitle(summary.flakyTests.length))}</h2>
+            <table>
+              <tr>
+                <th>${escapeHtml(common.test)}</th>
+                <th>${escapeHtml(common.file)}</th>
+                ${flakyKeys.map((key) => `<th>${escapeHtml(summaryLabel(summary, key))}</th>`).join("")}
+                <th>${escapeHtml(common.attempts)}</th>
+              </tr>
+              ${summary.flakyTests
+              .map(
+                (t) => `
+                <tr>
+                  <td>${escapeHtml(t.title)}</td>
+                  <td>${escapeHtml(t.location)}</td>
+                  ${flakyKeys.map((key) => `<td>${escapeHtml(formatTagValue(t.dimensions[key]))}</td>`).join("")}
+                  <td>${describeAttempts(t)}</td>
+                </tr>
+              `
+              )
+              .join("")}
+            </table>
+          </div>
+        ` : ""}
+        ${summary.fixedTests.length ? `
+          <div>
+            <h2>✅ ${escapeHtml(run.fixedTitle(summary.fixedTests.length))}</h2>
+            <table>
+              <tr>
+                <th>${escapeHtml(common.test)}</th>
+                <th>${escapeHtml(common.file)}</th>
+                ${fixedKeys.map((key) => `<th>${escapeHtml(summaryLabel(summary, key))}</th>`).join("")}
+              </tr>
+              ${summary.fixedTests
+              .map(
+                (t) => `
+                <tr>
+                  <td>${escapeHtml(t.title)}</td>
+                  <td>${escapeHtml(t.location)}</td>
+                  ${fixedKeys.map((key) => `<td>${escapeHtml(formatTagValue(t.dimensions[key]))}</td>`).join("")}
+                </tr>
+              `
+              )
+              .join("")}
+            </table>
+          </div>
+        ` : ""}
+        <footer>
+          <hr style="border:none;border-top:1px solid #eee;margin-bottom:12px;">
+          ${escapeHtml(run.generatedOn(i18n.formatDate(summary.generatedAt)))} — ${escapeHtml(run.suiteName)}<br>
+          ${footer ? `<p>${escapeHtml(footer)}</p>` : ""}
+        </footer>
+      </div>
+    </body>
+    </html>
+  `;
+}
+
+// Fonction pour expliquer le contenu de la pièce jointe, ou pourquoi le rapport n'est pas joint
+function bundleNote(summary: RunSummary): string | undefined {
+  const bundle = summary.reportBundle;
+  const { email } = summary.i18n.messages;
+  if (!bundle) return undefined;
+  if (bundle.omitted) {
+    const target = summary.reportUrl || summary.reportPath;
+    return `${email.notAttached(bundle.omitted)}${target ? ` ${email.openAt(target)}` : ""}`;
+  }
+  if (bundle.path?.endsWith(".zip")) {
+    return email.zipContents(path.basename(bundle.path), bundle.files.length - 1, bundle.files[0]);
+  }
+  return undefined;
+}
+
+function renderBundleNoteHtml(summary: RunSummary): string {
+  const note = bundleNote(summary);
+  if (!note) return "";
+  const link = summary.reportBundle?.omitted && summary.reportUrl
+    ? ` <a href="${escapeHtml(summary.reportUrl)}">${escapeHtml(summary.i18n.messages.email.openReport)}</a>`
+    : "";
+  return `<p style="background:#fff8e1;border-left:4px solid #f39c12;padding:8px 12px;">📎 ${escapeHtml(note)}${link}</p>`;
+}
+
+// Fonction pour générer une version texte brut pour l'email
+function renderEmailText(summary: RunSummary): string {
+  const { i18n } = summary;
+  const { common, run, failureClusters } = i18n.messages;
+  const causes = summary.failureClusters.length
+    ? `${failureClusters.title(summary.failureClusters.length)}\n` +
+      summary.failureClusters
+        .slice(0, 10)
+        .map((cluster) => `  - ${failureClusters.tests(cluster.tests.length)}: ${cluster.signature}${cluster.dimensions.length ? ` (${describeClusterDimensions(cluster)})` : ""}\n`)
+        .join("") + "\n"
+    : "";
+  const globalErrors = summary.globalErrors.length
+    ? `${run.globalErrors(summary.globalErrors.length)}\n` +
+      summary.globalErrors.map((error) => `  - ${error.rawError}\n`).join("") + "\n"
+    : "";
+  const note = bundleNote(summary);
+  return `${summaryHeadline(summary)}\n${run.runDuration}: ${describeRunTiming(summary)}\n${note ? `${note}\n` : ""}\n` + globalErrors + causes + Array.from(summary.failedTests.entries())
+    .map(
+      ([describeName, tests]) => {
+        const keys = summary.dimensionKeysByDescribe[describeName] || [];
+        return `${describeName} (${common.failedTests(tests.length)})\n` +
+          tests
+            .map(
+              (t) =>
+                `  - ${t.title} ${describeTrend(t.trend, i18n.messages.trend)} (${common.file}: ${t.location}, ${common.time}: ${i18n.formatNumber(t.duration)}ms, ${keys
+                  .map((key) => `${summaryLabel(summary, key)}: ${formatTagValue(t.dimensions[key])}, `)
+                  .join("")}${common.tags}: ${t.tags.join(", ")})\n${t.owners?.length ? `    ${common.owners}: ${t.owners.join(", ")}\n` : ""}${t.failedStep ? `    ${common.failedStep}: ${t.failedStep}\n` : ""}    ${common.error}: ${t.rawError}\n`
+            )
+            .join("");
+      }
+    )
+    .join("\n") +
+    (summary.flakyTests.length
+      ? `\n${run.flakyTitle(summary.flakyTests.length)}\n` +
+        summary.flakyTests.map((t) => `  - ${t.title} (${common.file}: ${t.location}, ${common.attempts}: ${describeAttempts(t)})\n`).join("")
+      : "") +
+    (summary.fixedTests.length
+      ? `\n${run.fixedTitle(summary.fixedTests.length)}\n` +
+        summary.fixedTests.map((t) => `  - ${t.title} (${common.file}: ${t.location})\n`).join("")
+      : "");
+}
+
+// Canal email via SMTP (nodemailer)
+export class EmailChannel implements NotificationChannel {
+  name: string;
+  enabled?: boolean;
+  retry: RetryPolicy;
+
+  constructor(private options: EmailChannelOptions) {
+    this.name = options.name ?? "email";
+    this.enabled = options.enabled;
+    this.retry = options.retry || { attempts: 3, delayMs: 1000 };
+  }
+
+  async send(summary: RunSummary) {
+    // Configurer le transporteur SMTP
+    const transporter = nodemailer.createTransport({
+      host: this.options.smtp.host,
+      port: this.options.smtp.port,
+      secure: this.options.smtp.secure,
+      auth: this.options.smtp.auth,
+      tls: this.options.smtp.tls,
+    });
+
+    // Vérifier la connexion au serveur SMTP
+    await transporter.verify();
+
+    // Première capture d'écran de chaque test, intégrée à l'email en CID
+    const emailScreenshots = selectEmailScreenshots(
+      Array.from(summary.failedTests.values()).flat(),
+      this.options.screenshotMaxBytes
+    );
+
+    // Le rapport joint peut manquer (ex: run vert sans rapport généré), l'email part sans lui
+    const requestedAttachment = this.options.attachmentPath ?? summary.reportBundle?.path;
+    const attachmentPath = requestedAttachment && fs.existsSync(requestedAttachment) ? requestedAttachment : undefined;
+    if (requestedAttachment && !attachmentPath) {
+      console.warn(`⚠️ Email attachment not found, sending without it: ${requestedAttachment}`);
+    }
+    if (summary.reportBundle?.omitted) {
+      console.warn(`⚠️ Report not attached to the email: ${summary.reportBundle.omitted}.`);
+    }
+
+    await transporter.sendMail({
+      from: this.options.from,
+      to: this.options.to,
+      cc: this.options.cc?.length ? this.options.cc : undefined,
+      subject: `${hasFailures(summary) ? "" : summary.i18n.messages.email.subjectAllPassed}${this.options.subject} - ${summary.i18n.formatDate(summary.generatedAt)}`,
+      text: renderEmailText(summary),
+      html: renderEmailHtml(summary, emailScreenshots, this.options.footer),
+      attachments: [
+        ...(attachmentPath ? [{ filename: path.basename(attachmentPath), path: attachmentPath }] : []),
+        ...Array.from(emailScreenshots.values()),
+      ],
+    });
+
+    return `Email sent to ${this.options.to.join(", ")}.`;
+  }
+}
@@ -0,0 +1,174 @@
+import type { ParsedError } from "./report-model";
+import { escapeHtml } from "./html-escape";
+import { MONO_FONT_STACK } from "./report-assets";
+
+// Ligne d'un diff attendu / reçu
+export interface DiffLine {
+  kind: "common" | "expected" | "received";
+  text: string;
+}
+
+// Au-delà, le diff ligne à ligne (LCS) devient trop coûteux, on compare en bloc
+const MAX_DIFF_LINES = 500;
+
+const LABEL_PATTERN = /^\s*(?:Expected|Received|Actual|Call log)\b/i;
+
+// Fonction pour lire une valeur "Expected: ..." / "Received: ..." éventuellement sur plusieurs lignes
+function labelledValue(lines: string[], label: RegExp): string | undefined {
+  const start = lines.findIndex((line) => label.test(line));
+  if (start === -1) return undefined;
+
+  const value = [lines[start].match(label)[1]];
+  for (const line of lines.slice(start + 1)) {
+    if (line.trim() === "" || LABEL_PATTERN.test(line)) break;
+    value.push(line);
+  }
+  return value.join("\n").trim();
+}
+
+// Fonction pour indenter un objet JSON afin d'obtenir un diff ligne à ligne lisible
+function prettyValue(value: string): string {
+  try {
+    const parsed = JSON.parse(value);
+    return parsed !== null && typeof parsed === "object" ? JSON.stringify(parsed, null, 2) : value;
+  } catch {
+    return value;
+  }
+}
+
+// Fonction pour calculer un diff ligne à ligne (plus longue sous-séquence commune)
+export function diffLines(expected: string, received: string): DiffLine[] {
+  const a = expected.split("\n");
+  const b = received.split("\n");
+  if (a.length > MAX_DIFF_LINES || b.length > MAX_DIFF_LINES) {
+    return [
+      ...a.map((text): DiffLine => ({ kind: "expected", text })),
+      ...b.map((text): DiffLine => ({ kind: "received", text })),
+    ];
+  }
+
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const diff: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      diff.push({ kind: "common", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      diff.push({ kind: "expected", text: a[i++] });
+    } else {
+      diff.push({ kind: "received", text: b[j++] });
+    }
+  }
+  while (i < a.length) diff.push({ kind: "expected", text: a[i++] });
+  while (j < b.length) diff.push({ kind: "received", text: b[j++] });
+  return diff;
+}
+
+/**
+ * Fonction pour extraire un diff structuré d'un message d'erreur (sans codes ANSI).
+ * Reprend le diff "- Expected / + Received" des matchers d'égalité profonde (toEqual, toMatchObject...),
+ * sinon compare les valeurs "Expected:" / "Received:", y compris sur plusieurs lignes ou en JSON.
+ */
+export function parseErrorDiff(message: string): DiffLine[] | undefined {
+  const lines = message.split("\n");
+
+  const header = lines.findIndex((line) => /^-\s+Expected\b/.test(line));
+  if (header !== -1 && /^\+\s+Received\b/.test(lines[header + 1] || "")) {
+    const diff: DiffLine[] = [];
+    for (const line of lines.slice(header + 2)) {
+      if (line.trim() === "") {
+        if (diff.length) break;
+        continue;
+      }
+      if (LABEL_PATTERN.test(line)) break;
+      if (line.startsWith("-")) diff.push({ kind: "expected", text: line.slice(2) });
+      else if (line.startsWith("+")) diff.push({ kind: "received", text: line.slice(2) });
+      else diff.push({ kind: "common", text: line.slice(2) });
+    }
+    if (diff.length) return diff;
+  }
+
+  const expected = labelledValue(lines, /^\s*Expected(?: value| string| pattern| substring| length)?:\s?(.*)$/i);
+  const received = labelledValue(lines, /^\s*(?:Received|Actual)(?: value| string| length)?:\s?(.*)$/i);
+  if (expected === undefined || received === undefined) return undefined;
+  return diffLines(prettyValue(expected), prettyValue(received));
+}
+
+// Fonction pour nettoyer une stack : seulement les frames "at ...", sans node_modules ni internes Node
+export function cleanStack(stack: string | undefined): string | undefined {
+  if (!stack) return undefined;
+  const frames = stack
+    .split("\n")
+    .filter((line) => /^\s*at\s/.test(line))
+    .filter((line) => !/node_modules|node:internal|\(internal\//.test(line))
+    .map((line) => line.trim());
+  return frames.length ? frames.join("\n") : undefined;
+}
+
+// Styles des blocs d'erreur (emplacement, extrait de code, diff, stack)
+export const errorDetailsStyles = `
+  .error-block { margin: 10px 0; }
+  .error-title { font-weight: bold; color: #b71c1c; margin-bottom: 4px; }
+  .error-location { font-family: ${MONO_FONT_STACK}; font-weight: normal; color: #555; }
+  .error-snippet, .error-diff pre, .error-stack pre { font-family: ${MONO_FONT_STACK}; font-size: 13px; border-radius: 5px; padding: 10px; overflow-x: auto; margin: 6px 0; white-space: pre; }
+  .error-snippet { background: #2d2d2d; color: #f8f8f2; }
+  .error-diff pre { background: #fafafa; border: 1px solid #e0e0e0; }
+  .error-diff .diff-expected { background: #ffeaea; color: #b71c1c; display: block; }
+  .error-diff .diff-received { background: #eafaf1; color: #1e8449; display: block; }
+  .error-diff .diff-common { color: #555; display: block; }
+  .error-diff-legend { font-size: 12px; }
+  .error-diff-legend .diff-expected, .error-diff-legend .diff-received { display: inline; padding: 0 6px; border-radius: 3px; }
+  .error-stack summary { cursor: pointer; color: #0e4ba1; font-size: 13px; }
+  .error-stack pre { background: #f1f1f1; color: #333; }
+`;
+
+function renderDiffHtml(diff: DiffLine[], labels: ErrorLabels): string {
+  const prefix = { common: "  ", expected: "- ", received: "+ " };
+  return `
+    <div class="error-diff">
+      <div class="error-diff-legend"><span class="diff-expected">- ${escapeHtml(labels.diffExpected)}</span> <span class="diff-received">+ ${escapeHtml(labels.diffReceived)}</span></div>
+      <pre>${diff.map((line) => `<span class="diff-${line.kind}">${escapeHtml(prefix[line.kind] + line.text)}</span>`).join("")}</pre>
+    </div>`;
+}
+
+// Libellés des blocs d'erreur, dans la langue du rapport
+export interface ErrorLabels {
+  error: string;
+  fullMessage: string;
+  stackTrace: string;
+  /** Légende du diff, lignes "-" et "+" */
+  diffExpected: string;
+  diffReceived: string;
+}
+
+// Fonction pour générer le HTML de chaque erreur d'une tentative (rapports HTML)
+export function renderErrorsHtml(errors: ParsedError[], labels: ErrorLabels): string {
+  return errors
+    .map((error, index) => {
+      // Quand un diff est affiché, le message est réduit à son premier paragraphe, le détail reste dépliable
+      const message = error.diff ? error.rawError.split(/\n\s*\n/)[0] : error.rawError;
+      const fullMessage = error.diff && message !== error.rawError ? error.rawError : "";
+      return `
+      <div class="error-block">
+        <div class="error-title">
+          ❗ ${escapeHtml(labels.error)}${errors.length > 1 ? ` ${index + 1}/${errors.length}` : ""}
+          ${error.sourceLocation ? `<span class="error-location">📍 ${escapeHtml(error.sourceLocation)}</span>` : ""}
+        </div>
+        <div class="raw-error">${escapeHtml(message)}</div>
+        ${error.snippet ? `<pre class="error-snippet">${escapeHtml(error.snippet)}</pre>` : ""}
+        ${error.diff ? renderDiffHtml(error.diff, labels) : ""}
+        ${fullMessage ? `<details class="error-stack"><summary>${escapeHtml(labels.fullMessage)}</summary><pre>${escapeHtml(fullMessage)}</pre></details>` : ""}
+        ${error.stack ? `<details class="error-stack"><summary>${escapeHtml(labels.stackTrace)}</summary><pre>${escapeHtml(error.stack)}</pre></details>` : ""}
+      </div>`;
+    })
+    .join("");
+}
@@ -1,151 +1,546 @@
-import { Reporter, TestCase, TestResult, FullResult } from "@playwright/test/reporter";
+import { Reporter, TestCase, TestResult, FullResult, FullConfig, Suite, TestError } from "@playwright/test/reporter";
 import fs from "fs";
 import path from "path";
-import nodemailer from "nodemailer";
-import axios from "axios";
 import dotenv from 'dotenv'
+import {
+  ParsedError,
+  TestRecord,
+  describeAttempts,
+  joinOutput,
+  lastFailedAttempt,
+  parseError,
+  recordTestResult,
+} from "./report-model";
+import { attachmentStyles, lightboxHtml, renderAttachmentsHtml } from "./report-attachments";
+import { escapeHtml } from "./html-escape";
+import {
+  appendToHistory,
+  computeFailureTrends,
+  describeTrend,
+  findFixedTests,
+  loadHistory,
+  toHistoryRun,
+} from "./run-history";
+import {
+  DEFAULT_TAG_SCHEMA,
+  TagSchema,
+  TagValues,
+  dimensionKeys,
+  dimensionLabel,
+  formatTagValue,
+  localizeTagSchema,
+  logTagValidation,
+  renderTagValidationHtml,
+} from "./tag-schema";
+import { RunConfigInfo, buildRunReportJson, writeRunReportJson } from "./json-export";
+import {
+  NotificationChannel,
+  RetryPolicy,
+  RunSummary,
+  buildRunSummary,
+  describeRunTiming,
+  dispatchNotifications,
+} from "./notifications";
+import { EmailChannel } from "./email-channel";
+import { TeamsChannel, TeamsChannelOptions } from "./teams-channel";
+import { SlackChannel } from "./slack-channel";
+import { AlertPolicy, evaluateAlertPolicy, logAlertDecision, parseDimensionValues, validateAlertPolicy } from "./alert-policy";
+import { WebhookChannel, WebhookChannelOptions } from "./webhook-channel";
+import { failureClusterStyles, renderFailureClustersHtml } from "./failure-clusters";
+import { errorDetailsStyles, renderErrorsHtml } from "./error-details";
+import { renderStepTimelineHtml, stepTimelineStyles } from "./step-timeline";
+import { consoleOutputStyles, renderConsoleOutputHtml, renderGlobalErrorsHtml } from "./console-output";
+import { projectSummaryStyles, renderProjectSummaryHtml } from "./project-summary";
+import { MergedShards, writeShardBlob } from "./shard-blob";
+import { buildReportBundle, fileBundle } from "./zip-bundle";
+import { OwnerRule, loadOwnersFile, ownersOf, routeToOwners, validateOwners } from "./owner-routing";
+import {
+  PerformanceOptions,
+  computeTimingAnalytics,
+  renderPerformanceHtml,
+  timingAnalyticsStyles,
+  validatePerformanceOptions,
+} from "./timing-analytics";
+import { LiveProgress } from "./live-progress";
+import { I18n, Locale, createI18n, resolveI18nOptions, validateI18nOptions } from "./i18n";
+import { ERROR_ICON_SVG, MONO_FONT_STACK, SANS_FONT_STACK, warnIfNotSelfContained } from "./report-assets";
 dotenv.config()
 
-let WEB_HOOK_URL = process.env.WEB_HOOK_URL
-// Fonction pour supprimer les codes ANSI
-function stripAnsiCodes(str: string): string {
-  return str.replace(/\x1B\[[0-9;]*[a-zA-Z]/g, "");
+// Options du reporter, passées via `reporter: [['./failed-report.ts', { ... }]]`
+export interface FailedReportOptions {
+  /** Dossier de sortie des rapports (env: REPORT_OUTPUT_DIR) */
+  outputDir?: string;
+  /** Nom du fichier HTML généré dans outputDir */
+  reportFileName?: string;
+  /** Nom du fichier JSON généré dans outputDir, à côté du HTML */
+  jsonFileName?: string;
+  /** Dossier de l'historique des runs (env: REPORT_HISTORY_DIR, défaut: <outputDir>/history) */
+  historyDir?: string;
+  /** Nombre de runs conservés dans l'historique */
+  historySize?: number;
+  /** Mode shard : écrire les résultats dans un blob au lieu des rapports et notifications (env: REPORT_SHARD_MODE) */
+  shardMode?: boolean;
+  /** Dossier des blobs de shards (env: REPORT_BLOB_DIR, défaut: <outputDir>/blob) */
+  blobDir?: string;
+  /** Page live et instantané JSON mis à jour pendant le run, rapport partiel si le run est tué (env: REPORT_LIVE_PROGRESS, défaut: true) */
+  liveProgress?: boolean;
+  /** Rafraîchissement de la page live, en secondes (env: REPORT_LIVE_REFRESH_SECONDS, défaut: 5) */
+  liveRefreshSeconds?: number;
+  /**
+   * Fichier joint à l'email à la place du rapport généré par ce reporter (env: MAIL_ATTACHMENT_PATH).
+   * Par défaut, le failed-report est joint, zippé avec ses captures quand il en a.
+   */
+  attachmentPath?: string;
+  /** Taille max de la pièce jointe en octets, au-delà l'email renvoie vers le rapport (env: MAIL_ATTACHMENT_MAX_BYTES, défaut: 10 Mo) */
+  attachmentMaxBytes?: number;
+  /** URL du webhook Teams (env: WEB_HOOK_URL) */
+  webhookUrl?: string;
+  /** URL publique du rapport HTML, pour le lien "see full report" des notifications (env: REPORT_URL) */
+  reportUrl?: string;
+  smtp?: {
+    /** Obligatoire (env: SMTP_HOST) */
+    host?: string;
+    /** env: SMTP_PORT */
+    port?: number;
+    /** env: SMTP_SECURE */
+    secure?: boolean;
+    /** env: SMTP_USER / SMTP_PASS */
+    auth?: { user: string; pass: string };
+    /** env: SMTP_TLS_REJECT_UNAUTHORIZED */
+    tls?: { rejectUnauthorized?: boolean; servername?: string };
+  };
+  /** Obligatoire (env: MAIL_FROM) */
+  from?: string;
+  /** Obligatoire (env: MAIL_TO, liste séparée par des virgules) */
+  to?: string | string[];
+  /** env: MAIL_CC (liste séparée par des virgules) */
+  cc?: string | string[];
+  /** Préfixe du sujet, la date est ajoutée à la suite (env: MAIL_SUBJECT) */
+  subject?: string;
+  /** Signature en pied du rapport et des emails, ex: "QA Team — qa@example.com" (env: REPORT_FOOTER, défaut: aucune) */
+  footer?: string;
+  /** Dimensions portées par les tags (défaut: local, realm, payment_method) */
+  tagSchema?: TagSchema;
+  /** Taille totale max des captures intégrées à l'email, en octets (env: MAIL_SCREENSHOT_MAX_BYTES) */
+  emailScreenshotMaxBytes?: number;
+  /** Canaux de notification : activation et réessais des canaux intégrés, canaux personnalisés */
+  notifications?: {
+    email?: { enabled?: boolean; retry?: RetryPolicy };
+    /** Adaptive Cards Teams : taille max d'un message, nombre max de messages, longueur max des erreurs */
+    teams?: Omit<TeamsChannelOptions, "webhookUrl">;
+    /** Webhook entrant Slack, message Block Kit (env: SLACK_WEBHOOK_URL) */
+    slack?: { enabled?: boolean; webhookUrl?: string; maxTestsPerGroup?: number; retry?: RetryPolicy };
+    /** Webhook JSON générique, corps optionnellement construit par un modèle (env: NOTIFY_WEBHOOK_URL) */
+    webhook?: WebhookChannelOptions;
+    channels?: NotificationChannel[];
+  };
+  /**
+   * Politique d'alerte évaluée en fin de run (env: ALERT_MIN_FAILURES, ALERT_MIN_FAILURE_PERCENT,
+   * ALERT_ONLY_NEW_FAILURES, ALERT_NOTIFY_ON_SUCCESS, ALERT_SUPPRESS_TAGS, ALERT_SUPPRESS_DIMENSIONS, ex: "realm:CN")
+   */
+  alertPolicy?: AlertPolicy;
+  /** Section performance : tests les plus lents, proches du timeout, plus lents que d'habitude */
+  performance?: PerformanceOptions;
+  /**
+   * Équipes propriétaires des tests (env: REPORT_OWNERS_FILE, fichier JSON) : chacune reçoit un email
+   * et/ou un message Teams avec ses seuls échecs, le digest complet part toujours vers "to"
+   */
+  owners?: OwnerRule[];
+  /** Langue du rapport et des notifications, "en" ou "fr" (env: REPORT_LOCALE, défaut: en) */
+  locale?: Locale;
+  /** Fuseau horaire IANA des dates affichées (env: REPORT_TIMEZONE, défaut: Europe/Paris) */
+  timeZone?: string;
+}
+
+interface ResolvedFailedReportOptions {
+  outputDir: string;
+  reportFileName: string;
+  jsonFileName: string;
+  historyDir: string;
+  historySize: number;
+  shardMode: boolean;
+  blobDir: string;
+  liveProgress: boolean;
+  liveRefreshSeconds: number;
+  attachmentPath?: string;
+  attachmentMaxBytes: number;
+  webhookUrl?: string;
+  reportUrl?: string;
+  smtp: {
+    host: string;
+    port: number;
+    secure: boolean;
+    auth?: { user: string; pass: string };
+    tls?: { rejectUnauthorized?: boolean; servername?: string };
+  };
+  from: string;
+  to: string[];
+  cc: string[];
+  subject: string;
+  footer?: string;
+  tagSchema: TagSchema;
+  emailScreenshotMaxBytes: number;
+  notifications: {
+    email: { enabled?: boolean; retry?: RetryPolicy };
+    teams: Omit<TeamsChannelOptions, "webhookUrl">;
+    slack: { enabled?: boolean; webhookUrl?: string; maxTestsPerGroup?: number; retry?: RetryPolicy };
+    webhook: WebhookChannelOptions;
+    channels: NotificationChannel[];
+  };
+  alertPolicy: AlertPolicy;
+  performance: PerformanceOptions;
+  owners: OwnerRule[];
+  locale: Locale;
+  timeZone: string;
 }
 
-// Fonction pour extraire les tags depuis test.info().tags
-function extractTags(test: TestCase): string[] {
-  const tags = test.tags || [];
-  return tags.length > 0 ? tags : ["No tags"];
+// Fonction pour transformer "a@x.com, b@y.com" (ou "@wip, @known-issue") en tableau
+function toList(value: string | string[] | undefined): string[] {
+  if (!value) return [];
+  const list = Array.isArray(value) ? value : value.split(",");
+  return list.map((address) => address.trim()).filter(Boolean);
 }
 
-// Fonction pour parser les tags et extraire les données
-function extractDataFromTags(tags: string[], testTitle: string): {
-  local: string;
-  realm: string;
-  customTags: { [key: string]: string | string[] };
-} {
-  const data = {
-    local: "N/A",
-    realm: "N/A",
-    customTags: {},
+// Fonction pour lire un booléen depuis une variable d'environnement
+function envBoolean(value: string | undefined): boolean | undefined {
+  if (value === undefined || value === "") return undefined;
+  return ["1", "true", "yes"].includes(value.toLowerCase());
+}
+
+// Fonction pour fusionner les options avec les variables d'environnement et les valeurs par défaut
+function resolveOptions(options: FailedReportOptions): ResolvedFailedReportOptions {
+  const env = process.env;
+  const outputDir = options.outputDir ?? env.REPORT_OUTPUT_DIR ?? "costum-report";
+
+  const user = options.smtp?.auth?.user ?? env.SMTP_USER;
+  const pass = options.smtp?.auth?.pass ?? env.SMTP_PASS;
+  const rejectUnauthorized = options.smtp?.tls?.rejectUnauthorized ?? envBoolean(env.SMTP_TLS_REJECT_UNAUTHORIZED);
+  const tls = options.smtp?.tls || rejectUnauthorized !== undefined
+    ? { ...options.smtp?.tls, rejectUnauthorized }
+    : undefined;
+
+  return {
+    outputDir,
+    reportFileName: options.reportFileName ?? "failed-report.html",
+    jsonFileName: options.jsonFileName ?? "failed-report.json",
+    historyDir: options.historyDir ?? env.REPORT_HISTORY_DIR ?? path.join(outputDir, "history"),
+    historySize: options.historySize ?? 30,
+    shardMode: options.shardMode ?? envBoolean(env.REPORT_SHARD_MODE) ?? false,
+    blobDir: options.blobDir ?? env.REPORT_BLOB_DIR ?? path.join(outputDir, "blob"),
+    liveProgress: options.liveProgress ?? envBoolean(env.REPORT_LIVE_PROGRESS) ?? true,
+    liveRefreshSeconds: options.liveRefreshSeconds ?? (env.REPORT_LIVE_REFRESH_SECONDS ? Number(env.REPORT_LIVE_REFRESH_SECONDS) : 5),
+    attachmentPath: options.attachmentPath ?? env.MAIL_ATTACHMENT_PATH,
+    attachmentMaxBytes: options.attachmentMaxBytes
+      ?? (env.MAIL_ATTACHMENT_MAX_BYTES ? Number(env.MAIL_ATTACHMENT_MAX_BYTES) : 10 * 1024 * 1024),
+    webhookUrl: options.webhookUrl ?? env.WEB_HOOK_URL,
+    reportUrl: options.reportUrl ?? env.REPORT_URL,
+    smtp: {
+      host: options.smtp?.host ?? env.SMTP_HOST ?? "",
+      port: options.smtp?.port ?? (env.SMTP_PORT ? Number(env.SMTP_PORT) : 25),
+      secure: options.smtp?.secure ?? envBoolean(env.SMTP_SECURE) ?? false,
+      auth: user || pass ? { user, pass } : undefined,
+      tls,
+    },
+    from: options.from ?? env.MAIL_FROM ?? "",
+    to: toList(options.to ?? env.MAIL_TO),
+    cc: toList(options.cc ?? env.MAIL_CC),
+    subject: options.subject ?? env.MAIL_SUBJECT ?? "Master Data Failed Tests Report",
+    footer: options.footer ?? env.REPORT_FOOTER,
+    tagSchema: options.tagSchema ?? DEFAULT_TAG_SCHEMA,
+    emailScreenshotMaxBytes: options.emailScreenshotMaxBytes
+      ?? (env.MAIL_SCREENSHOT_MAX_BYTES ? Number(env.MAIL_SCREENSHOT_MAX_BYTES) : 5 * 1024 * 1024),
+    notifications: {
+      email: options.notifications?.email ?? {},
+      teams: options.notifications?.teams ?? {},
+      slack: {
+        ...options.notifications?.slack,
+        webhookUrl: options.notifications?.slack?.webhookUrl ?? env.SLACK_WEBHOOK_URL,
+      },
+      webhook: { ...options.notifications?.webhook, url: options.notifications?.webhook?.url ?? env.NOTIFY_WEBHOOK_URL },
+      channels: options.notifications?.channels ?? [],
+    },
+    alertPolicy: {
+      ...options.alertPolicy,
+      minFailures: options.alertPolicy?.minFailures
+        ?? (env.ALERT_MIN_FAILURES ? Number(env.ALERT_MIN_FAILURES) : undefined),
+      minFailurePercent: options.alertPolicy?.minFailurePercent
+        ?? (env.ALERT_MIN_FAILURE_PERCENT ? Number(env.ALERT_MIN_FAILURE_PERCENT) : undefined),
+      onlyNewFailures: options.alertPolicy?.onlyNewFailures ?? envBoolean(env.ALERT_ONLY_NEW_FAILURES),
+      notifyOnSuccess: options.alertPolicy?.notifyOnSuccess ?? envBoolean(env.ALERT_NOTIFY_ON_SUCCESS),
+      suppress: {
+        ...options.alertPolicy?.suppress,
+        tags: options.alertPolicy?.suppress?.tags ?? toList(env.ALERT_SUPPRESS_TAGS),
+        dimensions: options.alertPolicy?.suppress?.dimensions ?? parseDimensionValues(toList(env.ALERT_SUPPRESS_DIMENSIONS)),
+      },
+    },
+    performance: options.performance ?? {},
+    owners: options.owners ?? (env.REPORT_OWNERS_FILE ? loadOwnersFile(env.REPORT_OWNERS_FILE) : []),
+    ...resolveI18nOptions(options, env, "failed-report"),
   };
+}
+
+// Fonction pour valider les options résolues, retourne la liste des problèmes
+function validateOptions(options: ResolvedFailedReportOptions): string[] {
+  const problems: string[] = [];
+  const emailPattern = /^[^\s@]+@[^\s@]+$/;
 
-  for (const tag of tags) {
-    if (tag.startsWith("@local:") || tag.startsWith("@locale:")) {
-      data.local = tag.replace(/^@(local|locale):/, "");
-    } else if (tag.startsWith("@realm:")) {
-      data.realm = tag.replace("@realm:", "");
-    } else if (tag.startsWith("@payment_method:")) {
-      // Ajoute toutes les méthodes de paiement dans un tableau
-      if (!data.customTags["payment_method"]) data.customTags["payment_method"] = [];
-      (data.customTags["payment_method"] as string[]).push(tag.replace("@payment_method:", ""));
-    } else if (tag.startsWith("@") && tag.includes(":")) {
-      const [key, value] = tag.slice(1).split(":");
-      data.customTags[key] = value;
+  if (!options.outputDir) problems.push("outputDir must not be empty");
+  if (!Number.isInteger(options.liveRefreshSeconds) || options.liveRefreshSeconds <= 0) {
+    problems.push(`liveRefreshSeconds must be a positive integer (got "${options.liveRefreshSeconds}")`);
+  }
+  // Le SMTP et les adresses ne sont obligatoires que si le canal email est actif (ex: configuration Teams ou Slack seule)
+  if (options.notifications.email.enabled !== false) {
+    if (!options.smtp.host) problems.push("smtp.host is required (SMTP_HOST)");
+    if (!Number.isInteger(options.smtp.port) || options.smtp.port <= 0 || options.smtp.port > 65535) {
+      problems.push(`smtp.port must be an integer between 1 and 65535 (got "${options.smtp.port}")`);
+    }
+    if (options.smtp.auth && (!options.smtp.auth.user || !options.smtp.auth.pass)) {
+      problems.push("smtp.auth requires both user and pass (SMTP_USER / SMTP_PASS)");
     }
+    if (!options.from) problems.push("from is required (MAIL_FROM)");
+    else if (!emailPattern.test(options.from)) problems.push(`from is not a valid address: "${options.from}"`);
+    if (options.to.length === 0) problems.push("to must contain at least one recipient (MAIL_TO)");
   }
-
-  // Avertissement si des données clés sont manquantes
-  if (data.local === "N/A" || data.realm === "N/A") {
-    console.warn(`Missing data for test "${testTitle}":`, data);
+  for (const address of [...options.to, ...options.cc]) {
+    if (!emailPattern.test(address)) problems.push(`invalid recipient address: "${address}"`);
+  }
+  for (const dimension of options.tagSchema) {
+    if (!dimension.name) problems.push("tagSchema entries must have a name");
+  }
+  if (!Number.isInteger(options.historySize) || options.historySize < 1) {
+    problems.push(`historySize must be a positive integer (got "${options.historySize}")`);
+  }
+  if (!Number.isFinite(options.emailScreenshotMaxBytes) || options.emailScreenshotMaxBytes < 0) {
+    problems.push(`emailScreenshotMaxBytes must be a positive number (got "${options.emailScreenshotMaxBytes}")`);
+  }
+  if (options.webhookUrl && !/^https?:\/\//.test(options.webhookUrl)) {
+    problems.push(`webhookUrl must be an http(s) URL (got "${options.webhookUrl}")`);
   }
 
-  return data;
-}
+  const { email, teams, slack, webhook, channels } = options.notifications;
+  for (const [name, retry] of [
+    ["email", email.retry],
+    ["teams", teams.retry],
+    ["slack", slack.retry],
+    ["webhook", webhook.retry],
+  ] as const) {
+    if (retry && (!Number.isInteger(retry.attempts) || retry.attempts < 1 || retry.delayMs < 0)) {
+      problems.push(`notifications.${name}.retry must have attempts >= 1 and delayMs >= 0`);
+    }
+  }
+  if (slack.webhookUrl && !/^https?:\/\//.test(slack.webhookUrl)) {
+    problems.push(`notifications.slack.webhookUrl must be an http(s) URL (got "${slack.webhookUrl}")`);
+  }
+  if (slack.maxTestsPerGroup !== undefined && (!Number.isInteger(slack.maxTestsPerGroup) || slack.maxTestsPerGroup < 1)) {
+    problems.push("notifications.slack.maxTestsPerGroup must be a positive integer");
+  }
+  if (options.reportUrl && !/^https?:\/\//.test(options.reportUrl)) {
+    problems.push(`reportUrl must be an http(s) URL (got "${options.reportUrl}")`);
+  }
+  for (const key of ["maxPayloadBytes", "maxMessages", "maxErrorLength"] as const) {
+    const value = teams[key];
+    if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+      problems.push(`notifications.teams.${key} must be a positive integer`);
+    }
+  }
+  if (webhook.url && !/^https?:\/\//.test(webhook.url)) {
+    problems.push(`notifications.webhook.url must be an http(s) URL (got "${webhook.url}")`);
+  }
+  problems.push(...validateAlertPolicy(options.alertPolicy));
+  problems.push(...validatePerformanceOptions(options.performance));
+  problems.push(...validateOwners(options.owners));
+  problems.push(...validateI18nOptions(options.locale, options.timeZone));
+  if (!Number.isInteger(options.attachmentMaxBytes) || options.attachmentMaxBytes <= 0) {
+    problems.push(`attachmentMaxBytes must be a positive integer (got "${options.attachmentMaxBytes}")`);
+  }
+  for (const channel of channels) {
+    if (!channel.name || typeof channel.send !== "function") {
+      problems.push("notifications.channels entries must have a name and a send() function");
+    }
+  }
 
-// Ajoutez cette fonction utilitaire en haut du fichier (après les imports)
-function extractPaymentMethodsFromTags(tags: string[]): string[] {
-  return tags
-    .filter(tag => tag.startsWith('@payment_method:'))
-    .map(tag => tag.replace('@payment_method:', ''));
+  return problems;
 }
 
 class CustomEmailReporter implements Reporter {
-  private failedTests: Map<
-    string,
-    Array<{
-      title: string;
-      location: string;
-      duration: number;
-      rawError: string;
-      expected: string[];
-      actual: string[];
-      tags: string[];
-      local: string;
-      realm: string;
-      customTags: { [key: string]: string | string[] };
-    }>
-  > = new Map();
-
-  onTestEnd(test: TestCase, result: TestResult) {
-    if (result.status !== "failed") return;
+  private options: ResolvedFailedReportOptions;
+  private config: RunConfigInfo;
+  private channels: NotificationChannel[];
+  private live: LiveProgress | undefined;
+  private beganAt: number | undefined;
+  // Créé une fois les options validées, une locale ou un fuseau inconnu ferait échouer Intl
+  private i18n: I18n;
 
-    const loc = test.location ? `${path.basename(test.location.file)}:${test.location.line}` : "unknown";
-    const describeName = test.parent?.title || "Tests without describe";
-    const tags = extractTags(test);
+  // Les options sont validées dès la construction : une configuration invalide fait échouer le reporter
+  // une seule fois, avant le run, au lieu de faire échouer chacun de ses hooks
+  constructor(options: FailedReportOptions = {}) {
+    this.options = resolveOptions(options);
+    this.prepareOptions();
+    const { notifications } = this.options;
+    this.channels = [
+      new EmailChannel({
+        ...notifications.email,
+        smtp: this.options.smtp,
+        from: this.options.from,
+        to: this.options.to,
+        cc: this.options.cc,
+        subject: this.options.subject,
+        footer: this.options.footer,
+        screenshotMaxBytes: this.options.emailScreenshotMaxBytes,
+      }),
+      new TeamsChannel({ ...notifications.teams, webhookUrl: this.options.webhookUrl }),
+      new SlackChannel(notifications.slack),
+      new WebhookChannel(notifications.webhook),
+      ...notifications.channels,
+    ];
+  }
 
-    // Extraire les données des tags
-    const { local, realm, customTags } = extractDataFromTags(tags, test.title);
+  // Fonction pour valider les options puis préparer la langue du rapport, lève une erreur si une option est invalide
+  private prepareOptions() {
+    const problems = validateOptions(this.options);
+    if (problems.length > 0) {
+      throw new Error(`Invalid failed-report options:\n  - ${problems.join("\n  - ")}`);
+    }
+    this.i18n = createI18n(this.options.locale, this.options.timeZone);
+    this.options = { ...this.options, tagSchema: localizeTagSchema(this.options.tagSchema, this.i18n.messages.dimensionLabels) };
+  }
 
-    for (const error of result.errors) {
-      const raw = error.message || "No error message";
-      const cleanedRaw = stripAnsiCodes(raw);
-      const expected = Array.from(raw.matchAll(/Expected(?: value)?:\s*([^\n]+)/gi)).map((m) =>
-        stripAnsiCodes(m[1].trim())
-      );
-      const actual = Array.from(raw.matchAll(/(?:Received|Actual):\s*([^\n]+)/gi)).map((m) =>
-        stripAnsiCodes(m[1].trim())
-      );
+  onBegin(config: FullConfig, suite: Suite) {
+    this.config = config;
+    this.beganAt = Date.now();
 
-      const tests = this.failedTests.get(describeName) || [];
-      tests.push({
-        title: test.title,
-        location: loc,
-        duration: result.duration,
-        rawError: cleanedRaw,
-        expected,
-        actual,
-        tags,
-        local,
-        realm,
-        customTags, // <-- ensure this is the correct type
+    if (this.options.liveProgress) {
+      this.live = new LiveProgress({
+        outputDir: this.options.outputDir,
+        reportName: "failed-report",
+        title: this.options.subject,
+        reportFileName: this.options.reportFileName,
+        refreshSeconds: this.options.liveRefreshSeconds,
+        i18n: this.i18n,
       });
-      this.failedTests.set(describeName, tests);
+      this.live.begin(suite.allTests().length, () => Array.from(this.tests.values()));
     }
   }
 
+  private tests: Map<string, TestRecord> = new Map();
+  private globalErrors: ParsedError[] = [];
+  private runnerOutput = { stdout: [] as string[], stderr: [] as string[] };
+
+  // Erreurs hors test : global setup, crash de worker, configuration invalide
+  onError(error: TestError) {
+    this.globalErrors.push(parseError(error, this.i18n.messages.common.noErrorMessage));
+  }
+
+  // La sortie des tests est déjà dans result.stdout / result.stderr, seule celle du runner est conservée ici
+  onStdOut(chunk: string | Buffer, test?: TestCase) {
+    if (!test) this.runnerOutput.stdout.push(chunk.toString());
+  }
+
+  onStdErr(chunk: string | Buffer, test?: TestCase) {
+    if (!test) this.runnerOutput.stderr.push(chunk.toString());
+  }
+
+  onTestEnd(test: TestCase, result: TestResult) {
+    recordTestResult(this.tests, test, result, {
+      noTags: this.i18n.messages.common.noTags,
+      noDescribe: this.i18n.messages.common.noDescribe,
+      noErrorMessage: this.i18n.messages.common.noErrorMessage,
+      outputTruncated: this.i18n.messages.common.outputTruncated,
+      tagSchema: this.options.tagSchema,
+    });
+    this.live?.update();
+  }
+
+  // Si onEnd échoue, la page live reste en l'état et devient un rapport partiel à la sortie du process
   async onEnd(result: FullResult) {
-    if (this.failedTests.size === 0) {
-      console.log("✅ All tests passed, no report to generate.");
+    // En mode shard, la fusion (merge-reports.ts) génère les rapports et envoie les notifications
+    if (this.options.shardMode) {
+      writeShardBlob(
+        this.options.blobDir,
+        "failed-report",
+        Array.from(this.tests.values()),
+        result,
+        this.config,
+        this.globalErrors
+      );
+      this.live?.finish(false);
       return;
     }
+    await this.generateReports(result);
+    this.live?.finish();
+  }
+
+  // Fonction pour générer les rapports à partir des résultats fusionnés des shards
+  async onMergedEnd(merged: MergedShards) {
+    this.config = merged.config;
+    this.tests = new Map(merged.records.map((record) => [record.id, record]));
+    this.globalErrors = merged.globalErrors;
+    await this.generateReports(merged.result);
+  }
 
-    // Calculate total execution time
-    const totalDuration = Array.from(this.failedTests.values())
-      .flat()
-      .reduce((sum, test) => sum + test.duration, 0);
-
-    // Trouver tous les tags personnalisés uniques pour chaque describe
-    const customTagKeysByDescribe: { [describeName: string]: Set<string> } = {};
-    for (const [describeName, tests] of this.failedTests) {
-      const customTagKeys = new Set<string>();
-      for (const test of tests) {
-        Object.keys(test.customTags).forEach((key) => customTagKeys.add(key));
-      }
-      customTagKeysByDescribe[describeName] = customTagKeys;
+  private async generateReports(result: FullResult) {
+    fs.mkdirSync(this.options.outputDir, { recursive: true });
+    const records = Array.from(this.tests.values());
+    const tagIssues = records.flatMap((record) => record.tagIssues);
+    const { i18n } = this;
+    const m = i18n.messages;
+    logTagValidation(tagIssues, m.tagValidation);
+
+    // Comparer avec les runs précédents puis enregistrer le run courant
+    const historyDir = path.join(this.options.historyDir, "failed-report");
+    const previousRuns = loadHistory(historyDir);
+    const trends = computeFailureTrends(records, previousRuns);
+    const fixedTests = findFixedTests(records, previousRuns);
+    appendToHistory(historyDir, toHistoryRun(records, result.startTime, result.status), this.options.historySize);
+
+    // Durée réelle du run, pas la somme des durées des tests qui se chevauchent entre workers
+    const runDuration = result.duration ?? (this.beganAt ? Date.now() - this.beganAt : 0);
+    const timing = computeTimingAnalytics(
+      records,
+      { duration: runDuration, workers: this.config?.workers, previousRuns },
+      this.options.performance,
+      this.options.tagSchema
+    );
+
+    const summary = buildRunSummary(records, {
+      title: records.some((record) => record.outcome === "unexpected") || this.globalErrors.length
+        ? m.failedReport.title
+        : m.failedReport.passingTitle,
+      status: result.status,
+      tagSchema: this.options.tagSchema,
+      trends,
+      fixedTests,
+      attachmentsDir: this.options.outputDir,
+      reportPath: path.join(this.options.outputDir, this.options.reportFileName),
+      reportUrl: this.options.reportUrl,
+      globalErrors: this.globalErrors,
+      runDuration,
+      workers: this.config?.workers,
+      i18n,
+    });
+    const { failedTests, flakyTests, newFailures } = summary;
+
+    if (failedTests.size === 0 && flakyTests.length === 0 && fixedTests.length === 0 && this.globalErrors.length === 0) {
+      console.log("✅ All tests passed, no report to generate.");
+      await this.notify(summary);
+      return;
     }
 
+    // Dimensions d'un test selon le schéma : obligatoires (N/A si absentes) puis renseignées
+    const { tagSchema } = this.options;
+    const dimensionEntries = (dimensions: TagValues) =>
+      dimensionKeys(tagSchema, [dimensions]).map((key) => ({ label: dimensionLabel(tagSchema, key), value: formatTagValue(dimensions[key]) }));
+
     // Générer le rapport HTML complet
     const fullReportHtml = `
       <!DOCTYPE html>
-      <html lang="fr">
+      <html lang="${i18n.locale}">
       <head>
         <meta charset="UTF-8" />
-        <title>Master Data Failed Tests</title>
-        <link href="https://fonts.googleapis.com/css?family=Montserrat:400,700&display=swap" rel="stylesheet">
+        <title>${escapeHtml(m.failedReport.title)}</title>
         <style>
           body {
-            font-family: 'Montserrat', Arial, sans-serif;
+            font-family: ${SANS_FONT_STACK};
             background: linear-gradient(135deg, #e0eafc 0%, #cfdef3 100%);
             color: #222;
             margin: 0;
@@ -159,7 +554,7 @@ class CustomEmailReporter implements Reporter {
             box-shadow: 0 2px 8px rgba(0,0,0,0.07);
             margin-bottom: 32px;
           }
-          header img {
+          header svg {
             height: 48px;
             vertical-align: middle;
             margin-right: 16px;
@@ -171,7 +566,7 @@ class CustomEmailReporter implements Reporter {
             font-weight: 700;
           }
           .execution-time {
-            font-family: 'Montserrat', Arial, sans-serif;
+            font-family: ${SANS_FONT_STACK};
             background: #27ae60;
             color: #fff;
             font-weight: bold;
@@ -267,7 +662,7 @@ class CustomEmailReporter implements Reporter {
             color: #b71c1c;
             padding: 12px;
             border-radius: 6px;
-            font-family: 'Fira Mono', monospace;
+            font-family: ${MONO_FONT_STACK};
             font-size: 1em;
             white-space: pre-wrap;
             margin-bottom: 10px;
@@ -303,6 +698,52 @@ class CustomEmailReporter implements Reporter {
             font-weight: bold;
             color: #27ae60;
           }
+          .flaky {
+            max-width: 900px;
+            margin: 0 auto 32px auto;
+          }
+          .flaky-header {
+            background: linear-gradient(90deg, #e67e22 0%, #f39c12 100%);
+            color: #fff;
+            padding: 14px 20px;
+            border-radius: 8px;
+            font-weight: bold;
+            font-size: 1.15em;
+            margin-bottom: 6px;
+            box-shadow: 0 1px 6px rgba(0,0,0,0.06);
+          }
+          .flaky-test {
+            background: #fff;
+            border-radius: 10px;
+            box-shadow: 0 2px 10px rgba(0,0,0,0.08);
+            margin-bottom: 10px;
+            padding: 12px 28px;
+            border-left: 7px solid #f39c12;
+            display: flex;
+            gap: 18px;
+            flex-wrap: wrap;
+          }
+          .flaky-test strong {
+            color: #0e4ba1;
+          }
+          .fixed .flaky-header {
+            background: linear-gradient(90deg, #27ae60 0%, #6fcf97 100%);
+          }
+          .fixed .flaky-test {
+            border-left-color: #27ae60;
+          }
+          .trend {
+            background: #fff3cd;
+            border-radius: 4px;
+            padding: 0 6px;
+          }
+          ${attachmentStyles}
+          ${failureClusterStyles}
+          ${errorDetailsStyles}
+          ${stepTimelineStyles}
+          ${consoleOutputStyles}
+          ${timingAnalyticsStyles}
+          ${projectSummaryStyles}
           footer {
             margin-top: 48px;
             font-size: 0.95em;
@@ -324,72 +765,97 @@ class CustomEmailReporter implements Reporter {
       </head>
       <body>
         <header>
-          <img src="https://cdn-icons-png.flaticon.com/512/1828/1828665.png" alt="Error Icon"/>
-          <h1>❌ Master Data Failed Tests</h1>
+          ${ERROR_ICON_SVG}
+          <h1>❌ ${escapeHtml(m.failedReport.title)}</h1>
         </header>
         <div class="execution-time">
-          ⏳ Total Execution Time: ${totalDuration} ms
+          ⏳ ${escapeHtml(m.run.runDuration)}: ${escapeHtml(describeRunTiming(summary))}
         </div>
         <div class="summary">
           <span class="summary-icon">🚨</span>
           <div class="summary-details">
-            <strong>${this.failedTests.size}</strong> describe block(s) with failed tests.<br>
-            <strong>${Array.from(this.failedTests.values()).reduce((acc, arr) => acc + arr.length, 0)}</strong> total failed test(s).
-            <br>Report generated on <strong>${new Date().toLocaleString()}</strong>
+            ${m.run.describeBlocks(`<strong>${failedTests.size}</strong>`)}<br>
+            ${m.run.totalFailed(`<strong>${Array.from(failedTests.values()).reduce((acc, arr) => acc + arr.length, 0)}</strong>`)}<br>
+            ${m.run.flaky(`<strong>${flakyTests.length}</strong>`)}<br>
+            ${m.run.newAndFixed(`<strong>${newFailures}</strong>`, `<strong>${fixedTests.length}</strong>`)}
+            <br>${m.run.generatedOn(`<strong>${escapeHtml(i18n.formatDate(summary.generatedAt))}</strong>`)}
+          </div>
+        </div>
+        ${renderGlobalErrorsHtml(this.globalErrors, {
+          stdout: joinOutput(this.runnerOutput.stdout, m.common.outputTruncated),
+          stderr: joinOutput(this.runnerOutput.stderr, m.common.outputTruncated),
+        }, m.globalErrors, m.errors)}
+        ${renderProjectSummaryHtml(summary.stats.byProject, m.projectSummary, m.intlLocale)}
+        ${renderFailureClustersHtml(summary.failureClusters, m.failureClusters)}
+        ${renderTagValidationHtml(tagIssues, m.tagValidation)}
+        ${renderPerformanceHtml(timing, m.performance, m.intlLocale)}
+        ${flakyTests.length ? `
+        <div class="flaky">
+          <div class="flaky-header">🔁 ${escapeHtml(m.run.flakyTitle(flakyTests.length))}</div>
+          ${flakyTests
+          .map(
+            (t) => `
+          <div class="flaky-test">
+            <strong>🧪 ${escapeHtml(t.title)}</strong>
+            <span>📁 ${escapeHtml(t.location)}</span>
+            <span>🔁 ${describeAttempts(t)}</span>
+            ${dimensionEntries(t.dimensions).map((d) => `<span>🏷️ ${escapeHtml(d.label)}: ${escapeHtml(d.value)}</span>`).join("")}
+          </div>
+          `
+          )
+          .join("")}
+        </div>
+        ` : ""}
+        ${fixedTests.length ? `
+        <div class="flaky fixed">
+          <div class="flaky-header">✅ ${escapeHtml(m.run.fixedTitle(fixedTests.length))}</div>
+          ${fixedTests
+          .map(
+            (t) => `
+          <div class="flaky-test">
+            <strong>🧪 ${escapeHtml(t.title)}</strong>
+            <span>📁 ${escapeHtml(t.location)}</span>
+            ${dimensionEntries(t.dimensions).map((d) => `<span>🏷️ ${escapeHtml(d.label)}: ${escapeHtml(d.value)}</span>`).join("")}
           </div>
+          `
+          )
+          .join("")}
         </div>
-        ${Array.from(this.failedTests.entries())
+        ` : ""}
+        ${Array.from(failedTests.entries())
         .map(
           ([describeName, tests], index) => `
           <div class="describe">
             <div class="describe-header" onclick="toggleDescribe('describe-${index}')">
-              ${describeName} (${tests.length} failed test${tests.length > 1 ? "s" : ""}) ▶
+              ${escapeHtml(describeName)} (${escapeHtml(m.common.failedTests(tests.length))}) ▶
             </div>
             <div class="describe-content" id="describe-${index}">
               ${tests
               .map(
                 (t, ti) => {
-                  // Affichage correct des méthodes de paiement uniquement si présentes
-                  let paymentMethods: string[] = [];
-                  if (
-                    Object.prototype.hasOwnProperty.call(t.customTags, "payment_method")
-                    && t.customTags["payment_method"]
-                  ) {
-                    if (Array.isArray(t.customTags["payment_method"])) {
-                      paymentMethods = t.customTags["payment_method"] as string[];
-                    } else if (typeof t.customTags["payment_method"] === "string") {
-                      paymentMethods = [t.customTags["payment_method"] as string];
-                    }
-                  }
-                  const paymentMethodsHtml = paymentMethods.length
-                    ? `<div><span>payment_method:</span> ${paymentMethods.join(", ")}</div>`
-                    : "";
-
+                  const failedAttempt = lastFailedAttempt(t);
                   return `
                 <div class="test-card">
-                  <div class="title">🧪 ${t.title}</div>
+                  <div class="title">🧪 ${escapeHtml(t.title)}</div>
                   <div class="meta">
-                    <span>📁 ${t.location}</span>
-                    <span>⏱️ ${t.duration}ms</span>
-                    <span>🌍 Local: ${t.local}</span>
-                    <span>🔒 Realm: ${t.realm}</span>
+                    ${t.projectName ? `<span>🧭 ${escapeHtml(m.common.project)}: ${escapeHtml(t.projectName)}</span>` : ""}
+                    <span>📁 ${escapeHtml(t.location)}</span>
+                    <span>⏱️ ${i18n.formatNumber(t.duration)}ms</span>
+                    ${t.attempts.length > 1 ? `<span>🔁 ${escapeHtml(m.common.attempts)}: ${describeAttempts(t)}</span>` : ""}
+                    ${t.trend ? `<span class="trend">${escapeHtml(describeTrend(t.trend, m.trend))}</span>` : ""}
+                    ${t.failedStep ? `<span>🪜 ${escapeHtml(m.common.failedStep)}: ${escapeHtml(t.failedStep)}</span>` : ""}
                   </div>
-                  <span><h4 style="margin:10px 0 6px 0;color:#27ae60;">Expected Data</h4></span>
+                  <span><h4 style="margin:10px 0 6px 0;color:#27ae60;">${escapeHtml(m.failedReport.expectedData)}</h4></span>
                   <div class="details">
-                    ${Object.entries(t.customTags)
-                      .filter(([key]) => key !== "payment_method")
-                      .map(([key, value]) => `<div><span>${key}:</span> ${value}</div>`)
+                    ${dimensionEntries(t.dimensions)
+                      .map((d) => `<div><span>${escapeHtml(d.label)}:</span> ${escapeHtml(d.value)}</div>`)
                       .join("")}
-                    ${paymentMethodsHtml}
                   </div>
-                  <div class="tags"><span>Tags:</span> ${t.tags.join(", ")}</div>
-                  <div class="raw-error"><strong>❗ Error:</strong><br>${t.rawError}</div>
-                  ${(t.expected.length || t.actual.length) ? `
-                    <div class="details">
-                      ${t.expected.map((e, i) => `<div><span>Expected ${i + 1}:</span> ${e}</div>`).join("")}
-                      ${t.actual.map((a, i) => `<div><span>Actual ${i + 1}:</span> ${a}</div>`).join("")}
-                    </div>
-                  ` : ""}
+                  <div class="tags"><span>${escapeHtml(m.common.tags)}:</span> ${escapeHtml(t.tags.join(", "))}</div>
+                  ${renderErrorsHtml(failedAttempt?.errors || [t], m.errors)}
+                  ${renderStepTimelineHtml(failedAttempt?.steps, failedAttempt?.duration || 0, m.steps, m.errors)}
+                  ${renderConsoleOutputHtml(failedAttempt?.stdout, failedAttempt?.stderr, m.consoleOutput)}
+                  ${renderAttachmentsHtml(t.attachments)}
                 </div>
               `;
                 }
@@ -402,364 +868,89 @@ class CustomEmailReporter implements Reporter {
         .join("")}
         <footer>
           <hr style="border:none;border-top:1px solid #eee;margin-bottom:16px;">
-          Report generated on ${new Date().toLocaleString()} — Playwright API Tests<br>
-          <p><strong>Abd-ElFetah Mancer</strong> | Data Integrity Team | 18, rue du 4 septembre 75002 Paris | LV_NEO | Tel : 0638034143</p>
+          ${escapeHtml(m.run.generatedOn(i18n.formatDate(summary.generatedAt)))} — ${escapeHtml(m.run.suiteName)}<br>
+          ${this.options.footer ? `<p>${escapeHtml(this.options.footer)}</p>` : ""}
         </footer>
+        ${lightboxHtml}
       </body>
       </html>
     `;
 
     // Sauvegarder le rapport HTML complet
-    const reportPath = "costum-report/failed-report.html";
+    const reportPath = path.join(this.options.outputDir, this.options.reportFileName);
+    warnIfNotSelfContained(fullReportHtml, reportPath);
     fs.writeFileSync(reportPath, fullReportHtml, "utf-8");
-    console.log("✅ Full HTML report generated: failed-report.html");
+    console.log(`✅ ${m.run.htmlReportGenerated(reportPath)}`);
 
-    // Générer un rapport HTML simplifié pour l'email avec tableaux dynamiques
-    const emailBodyHtml = `
-      <!DOCTYPE html>
-      <html lang="fr">
-      <head>
-        <meta charset="UTF-8" />
-        <title>Master Data Failed Tests</title>
-        <link href="https://fonts.googleapis.com/css?family=Montserrat:400,700&display=swap" rel="stylesheet">
-        <style>
-          body {
-            font-family: 'Montserrat', Arial, sans-serif;
-            color: #222;
-            background: #f4f4f4;
-            margin: 0;
-            padding: 0;
-          }
-          .email-container {
-            max-width: 900px;
-            margin: 0 auto;
-            background: #fff;
-            border-radius: 8px;
-            box-shadow: 0 2px 8px rgba(0,0,0,0.07);
-            padding: 32px 24px;
-          }
-          h1 {
-            color: #d63031;
-            font-size: 2em;
-            margin-bottom: 10px;
-            font-weight: bold;
-          }
-          p {
-            font-size: 1em;
-            margin-bottom: 18px;
-          }
-          h2 {
-            color: #0e4ba1;
-            font-size: 1.1em;
-            margin: 20px 0 10px 0;
-          }
-          table {
-            width: 100%;
-            border-collapse: collapse;
-            margin-bottom: 18px;
-            background: #fff;
-            border-radius: 6px;
-            overflow: hidden;
-            box-shadow: 0 1px 4px rgba(0,0,0,0.06);
-          }
-          th, td {
-            border: 1px solid #e0e0e0;
-            padding: 8px 6px;
-            text-align: left;
-            font-size: 0.98em;
-          }
-          th {
-            background: #0e4ba1;
-            color: #fff;
-            font-weight: bold;
-          }
-          tr:nth-child(even) {
-            background: #f4f8fb;
-          }
-          tr:nth-child(odd) {
-            background: #fff;
-          }
-          .error {
-            color: #b71c1c;
-            font-family: monospace;
-            white-space: pre-wrap;
-            background: #ffeaea;
-            padding: 6px;
-            border-radius: 3px;
-            font-weight: bold;
-            border: 1px solid #d63031;
-          }
-          .details {
-            font-size: 0.97em;
-          }
-          .details div {
-            margin: 4px 0;
-          }
-          .details span {
-            font-weight: bold;
-            display: inline-block;
-            width: 80px;
-            color: #0e4ba1;
-          }
-          .tags {
-            font-size: 0.95em;
-            color: #2f4f4f;
-            background: #eafcda;
-            padding: 3px 8px;
-            border-radius: 3px;
-          }
-          .execution-time {
-            font-family: 'Montserrat', Arial, sans-serif;
-            background: #27ae60;
-            color: #fff;
-            font-weight: bold;
-            font-size: 1.1em;
-            border-radius: 8px;
-            padding: 10px 20px;
-            margin: 0 auto 18px auto;
-            max-width: 900px;
-            text-align: center;
-            box-shadow: 0 1px 6px rgba(39,174,96,0.10);
-            letter-spacing: 1px;
-          }
-          footer {
-            margin-top: 24px;
-            font-size: 0.95em;
-            color: #999;
-            text-align: center;
-          }
-        </style>
-      </head>
-      <body>
-        <div class="email-container">
-          <h1>❌ Master Data Failed Tests</h1>
-          <p> Dear All </p>
-          <div class="execution-time">
-            ⏳ Total Execution Time: ${totalDuration} ms
-          </div>
-          <p>Please find attached the full report. Summary of failed tests:</p>
-          <div style="margin-bottom:14px;">
-            <strong>${this.failedTests.size}</strong> describe block(s) with failed tests.<br>
-            <strong>${Array.from(this.failedTests.values()).reduce((acc, arr) => acc + arr.length, 0)}</strong> total failed test(s).
-            <br>Report generated on <strong>${new Date().toLocaleString()}</strong>
-          </div>
-          ${Array.from(this.failedTests.entries())
-          .map(([describeName, tests]) => {
-            const customTagKeys = Array.from(customTagKeysByDescribe[describeName] || []);
-            return `
-            <div>
-              <h2>${describeName} (${tests.length} failed test${tests.length > 1 ? "s" : ""})</h2>
-              <table>
-                <tr>
-                  <th>Test</th>
-                  <th>Local</th>
-                  <th>Realm</th>
-                  ${customTagKeys.map((key) => `<th>${key}</th>`).join("")}
-                  <th>Error</th>
-                  <th>Details</th>
-                </tr>
-                ${tests
-                .map(
-                  (t) => `
-                  <tr>
-                    <td>${t.title}</td>
-                    <td>${t.local}</td>
-                    <td>${t.realm}</td>
-                    ${customTagKeys.map((key) => `<td>${t.customTags[key] || "N/A"}</td>`).join("")}
-                    <td class="error">${t.rawError}</td>
-                    <td class="details">
-                      ${(t.expected.length || t.actual.length) ? `
-                        ${t.expected.map((e, i) => `<div><span>Expected ${i + 1}:</span> ${e}</div>`).join("")}
-                        ${t.actual.map((a, i) => `<div><span>Actual ${i + 1}:</span> ${a}</div>`).join("")}
-                      ` : "No details"}
-                    </td>
-                  </tr>
-                `
-                )
-                .join("")}
-              </table>
-            </div>
-          `;
-          })
-          .join("")}
-          <footer>
-            <hr style="border:none;border-top:1px solid #eee;margin-bottom:12px;">
-            Report generated on ${new Date().toLocaleString()} — Playwright API Tests<br>
-            <p><strong>Abd-ElFetah Mancer</strong> | Data Integrity Team | 18, rue du 4 septembre 75002 Paris | LV_NEO | Tel : 0638034143</p>
-          </footer>
-        </div>
-      </body>
-      </html>
-    `;
+    // Le rapport joint à l'email est celui qui vient d'être généré, pas celui d'un autre reporter
+    summary.reportBundle = this.options.attachmentPath
+      ? fileBundle(this.options.attachmentPath, this.options.attachmentMaxBytes, m.bundle, m.intlLocale)
+      : await buildReportBundle(
+        reportPath,
+        Array.from(failedTests.values()).flat().flatMap((test) => test.attachments),
+        this.options.attachmentMaxBytes,
+        m.bundle,
+        m.intlLocale
+      );
 
-    // Générer une version texte brut pour l'email
-    const textSummary = Array.from(this.failedTests.entries())
-      .map(
-        ([describeName, tests]) => {
-          const customTagKeys = Array.from(customTagKeysByDescribe[describeName] || []);
-          return `${describeName} (${tests.length} failed test${tests.length > 1 ? "s" : ""})\n` +
-            tests
-              .map(
-                (t) =>
-                  `  - ${t.title} (File: ${t.location}, Time: ${t.duration}ms, Local: ${t.local}, Realm: ${t.realm
-                  }, ${customTagKeys
-                    .map((key) => `${key}: ${t.customTags[key] || "N/A"}`)
-                    .join(", ")}, Tags: ${t.tags.join(", ")})\n    Error: ${t.rawError}\n`
-              )
-              .join("");
-        }
-      )
-      .join("\n");
-
-    // Envoyer le message à Microsoft Teams via un webhook
-    const webhookUrl = WEB_HOOK_URL;
-    if (webhookUrl) {
-      const totalFailed = Array.from(this.failedTests.values()).reduce((acc, arr) => acc + arr.length, 0);
-      const totalDescribe = this.failedTests.size;
-      const teamsPayload = {
-        "@type": "MessageCard",
-        "@context": "http://schema.org/extensions",
-        themeColor: "d63031",
-        summary: "❌ Master Data Failed Tests",
-        title: "❌ Master Data Failed Tests",
-        sections: [
-          {
-            activityTitle: "❌ <span style='color:#d63031;font-size:18px;font-weight:bold;'>Master Data Failed Tests</span>",
-            activitySubtitle: `Generated on ${new Date().toLocaleString()}`,
-            text: [
-              `**Total Failed Tests:** <span style='color:#d63031;font-weight:bold;'>${totalFailed}</span>`,
-              `**Describe Blocks:** <span style='color:#0e4ba1;font-weight:bold;'>${totalDescribe}</span>`,
-              `**Total Execution Time:** <span style='color:#27ae60;font-weight:bold;'>${totalDuration} ms</span>`,
-              "",
-              "Check your email for the full HTML report."
-            ].join("<br>"),
-            facts: [
-              {
-                name: "Total Failed Tests",
-                value: `${totalFailed}`
-              },
-              {
-                name: "Describe Blocks",
-                value: `${totalDescribe}`
-              },
-              {
-                name: "Total Execution Time",
-                value: `${totalDuration} ms`
-              }
-            ]
-          },
-          ...Array.from(this.failedTests.entries()).map(([describeName, tests]) => {
-            const customTagKeys = Array.from(customTagKeysByDescribe[describeName] || []);
-            return {
-              title: `**${describeName}** (${tests.length} failed test${tests.length > 1 ? "s" : ""})`,
-              facts: tests.map((t) => {
-                // Extraction des méthodes de paiement depuis customTags (tableau)
-                let paymentMethods: string[] = [];
-                if (Array.isArray(t.customTags["payment_method"])) {
-                  paymentMethods = t.customTags["payment_method"] as string[];
-                } else if (typeof t.customTags["payment_method"] === "string") {
-                  paymentMethods = [t.customTags["payment_method"] as string];
-                }
-                const paymentMethodsLine = paymentMethods.length
-                  ? `**Payment Methods:** ${paymentMethods.join(", ")}`
-                  : "";
-
-                // Flatten expected and actual arrays to single lines
-                const expectedLine = t.expected.length ? `Expected: ${t.expected.join(" | ")}` : "";
-                const actualLine = t.actual.length ? `Actual: ${t.actual.join(" | ")}` : "";
-                return {
-                  name: `🧪 ${t.title}`,
-                  value: [
-                    `**File:** ${t.location}`,
-                    `**Time:** ${t.duration}ms`,
-                    `**Local:** ${t.local}`,
-                    `**Realm:** ${t.realm}`,
-                    ...customTagKeys
-                      .filter((key) => key !== "payment_method")
-                      .map((key) => `**${key}:** ${t.customTags[key] || "N/A"}`),
-                    paymentMethodsLine,
-                    `**Tags:** ${t.tags.join(", ")}`,
-                    `<span style="color:#27ae60;"><strong>Error:</strong> ${t.rawError.replace(/\n/g, " ")}</span>`,
-                    expectedLine,
-                    actualLine
-                  ].filter(Boolean).join(" | ")
-                };
-              }),
-            };
-          }),
-        ],
-      };
-
-      try {
-        await axios.post(webhookUrl, teamsPayload);
-        console.log("📢 Message sent successfully to Microsoft Teams.");
-      } catch (error) {
-        console.error("❌ Error sending message to Teams:", {
-          message: error.message,
-          code: error.code,
-          response: error.response?.data || "No response",
-        });
-      }
-    } else {
-      console.warn("⚠️ TEAMS_WEBHOOK_URL not defined. Teams message not sent.");
-    }
+    // Exporter le modèle complet du run en JSON pour les dashboards
+    writeRunReportJson(
+      path.join(this.options.outputDir, this.options.jsonFileName),
+      buildRunReportJson("failed-report", records, result, this.config, this.globalErrors)
+    );
 
-    // Configurer le transporteur SMTP
-    const transporter = nodemailer.createTransport({
-      host: "smtp.vuitton.lvmh",
-      port: 25,
-    });
+    await this.notify(summary);
+  }
 
-    // Vérifier la connexion au serveur SMTP
-    try {
-      await transporter.verify();
-      console.log("✅ SMTP server connection verified successfully.");
-    } catch (error) {
-      console.error("❌ Error verifying SMTP transporter:", {
-        message: error.message,
-        code: error.code,
-        response: error.response || "No response",
-        stack: error.stack,
-      });
-      return;
+  // Fonction pour appliquer la politique d'alerte puis notifier les canaux
+  // Les tests flaky sont visibles dans le rapport mais ne déclenchent pas d'alerte
+  private async notify(summary: RunSummary) {
+    const decision = evaluateAlertPolicy(summary, this.options.alertPolicy);
+    logAlertDecision(decision);
+    if (!decision.notify) return;
+
+    const { owners } = this.options;
+    const failed = Array.from(decision.summary.failedTests.values()).flat();
+    for (const test of failed) test.owners = ownersOf(test, owners);
+
+    // Le digest complet part vers les canaux principaux, puis chaque équipe reçoit ses échecs
+    await dispatchNotifications(this.channels, decision.summary);
+    if (owners.length === 0) return;
+
+    const unowned = failed.filter((test) => test.owners.length === 0).length;
+    if (unowned) console.log(`👥 ${unowned} failed test(s) match no owner, they are only in the digest.`);
+    for (const { owner, summary: ownerSummary, channels } of routeToOwners(decision.summary, owners, (owner) =>
+      this.ownerChannels(owner)
+    )) {
+      console.log(`👥 Notifying owner "${owner.name}" (${ownerSummary.totalFailed} failed test(s)).`);
+      await dispatchNotifications(channels, ownerSummary);
     }
+  }
 
-    // Configurer les options de l'email
-    const mailOptions = {
-      from: "abd-elfetah.mancer.ext@louisvuitton.com",
-      to: "abd-elfetah.mancer.ext@louisvuitton.com",
-      subject: `Master Data Failed Tests Report - ${new Date().toLocaleString()}`,
-      text: textSummary,
-      html: emailBodyHtml,
-      attachments: [
-        {
-          filename: "full-test-report.html",
-          path: "costum-report/full-test-report.html",
-        },
-      ],
-    };
-
-    // Envoyer l'email avec logique de réessai
-    const sendEmailWithRetry = async (transporter, mailOptions, retries = 3, delay = 1000) => {
-      for (let attempt = 1; attempt <= retries; attempt++) {
-        try {
-          await transporter.sendMail(mailOptions);
-          console.log("📧 Email sent successfully.");
-          return;
-        } catch (error) {
-          console.error(`❌ Attempt ${attempt} failed:`, {
-            message: error.message,
-            code: error.code,
-            response: error.response || "No response",
-            stack: error.stack,
-          });
-          if (attempt < retries) await new Promise((resolve) => setTimeout(resolve, delay));
-        }
-      }
-      console.error("❌ All email sending attempts failed.");
-    };
-
-    await sendEmailWithRetry(transporter, mailOptions);
+  // Fonction pour créer les canaux d'une équipe, avec la configuration email et Teams principale
+  private ownerChannels(owner: OwnerRule): NotificationChannel[] {
+    const { notifications } = this.options;
+    const channels: NotificationChannel[] = [];
+    if (owner.emails?.length) {
+      channels.push(new EmailChannel({
+        ...notifications.email,
+        name: `email:${owner.name}`,
+        smtp: this.options.smtp,
+        from: this.options.from,
+        to: owner.emails,
+        subject: `[${owner.name}] ${this.options.subject}`,
+        footer: this.options.footer,
+        screenshotMaxBytes: this.options.emailScreenshotMaxBytes,
+      }));
+    }
+    if (owner.teamsWebhookUrl) {
+      channels.push(new TeamsChannel({
+        ...notifications.teams,
+        name: `teams:${owner.name}`,
+        webhookUrl: owner.teamsWebhookUrl,
+      }));
+    }
+    return channels;
   }
 }
 
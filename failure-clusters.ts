@@ -0,0 +1,112 @@
+import { ParsedError, TestRecord, stripAnsiCodes } from "./report-model";
+import { escapeHtml } from "./html-escape";
+import { MONO_FONT_STACK } from "./report-assets";
+import { TagSchema, collectDimensionValues, dimensionLabel } from "./tag-schema";
+
+// Groupe d'échecs partageant la même signature d'erreur normalisée
+export interface FailureCluster<T extends TestRecord & ParsedError = TestRecord & ParsedError> {
+  signature: string;
+  tests: T[];
+  /** Valeurs des dimensions du schéma touchées par le cluster, dans l'ordre du schéma */
+  dimensions: Array<{ name: string; label: string; values: string[] }>;
+}
+
+const MAX_SIGNATURE_LENGTH = 300;
+
+/**
+ * Fonction pour normaliser une erreur en signature : sans ANSI, sans stack ni call log,
+ * avec les URLs, dates, identifiants et nombres masqués pour regrouper les erreurs "presque identiques".
+ */
+export function normalizeErrorSignature(rawError: string): string {
+  const message = stripAnsiCodes(rawError || "")
+    .split(/\n\s*Call log:/)[0]
+    .split("\n")
+    .filter((line) => !/^\s*at\s/.test(line))
+    .join(" ");
+
+  const signature = message
+    .replace(/\b[a-z][a-z0-9+.-]*:\/\/[^\s'"<>)]+/gi, "<url>")
+    .replace(/\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?/g, "<timestamp>")
+    .replace(/\b\d{1,2}:\d{2}:\d{2}(?:\.\d+)?\b/g, "<timestamp>")
+    .replace(/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, "<id>")
+    .replace(/\b(?=[a-z0-9_-]*\d)(?=[a-z0-9_-]*[a-z])[a-z0-9_-]{8,}\b/gi, "<id>")
+    .replace(/\d+(?:\.\d+)?/g, "<n>")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  return signature.length > MAX_SIGNATURE_LENGTH ? `${signature.slice(0, MAX_SIGNATURE_LENGTH - 1)}…` : signature;
+}
+
+// Fonction pour regrouper les échecs par signature, du cluster le plus fréquent au moins fréquent
+export function clusterFailures<T extends TestRecord & ParsedError>(tests: T[], schema: TagSchema): FailureCluster<T>[] {
+  const clusters = new Map<string, T[]>();
+  for (const test of tests) {
+    const signature = normalizeErrorSignature(test.rawError);
+    clusters.set(signature, [...(clusters.get(signature) || []), test]);
+  }
+  return Array.from(clusters.entries())
+    .map(([signature, clusterTests]) => {
+      const values = collectDimensionValues(clusterTests.map((test) => test.dimensions));
+      return {
+        signature,
+        tests: clusterTests,
+        dimensions: schema
+          .filter((dimension) => values.has(dimension.name))
+          .map((dimension) => ({ name: dimension.name, label: dimensionLabel(schema, dimension.name), values: values.get(dimension.name) })),
+      };
+    })
+    .sort((a, b) => b.tests.length - a.tests.length || a.signature.localeCompare(b.signature));
+}
+
+// Fonction pour décrire les dimensions d'un cluster, ex: "Realm: EU, US | Local: FR"
+export function describeClusterDimensions(cluster: FailureCluster): string {
+  return cluster.dimensions.map((dimension) => `${dimension.label}: ${dimension.values.join(", ")}`).join(" | ");
+}
+
+// Styles de la section "Top failure causes"
+export const failureClusterStyles = `
+  .failure-causes { background: #fff; border-radius: 8px; box-shadow: 0 1px 4px rgba(0,0,0,0.08); padding: 16px 20px; margin: 0 auto 24px auto; max-width: 1100px; }
+  .failure-causes h2 { color: #d63031; margin: 0 0 12px 0; font-size: 1.2em; }
+  .failure-cause { border-left: 4px solid #d63031; padding: 8px 12px; margin-bottom: 10px; background: #fff5f5; border-radius: 4px; }
+  .failure-cause-count { font-weight: bold; color: #d63031; }
+  .failure-cause-signature { font-family: ${MONO_FONT_STACK}; font-size: 0.92em; white-space: pre-wrap; word-break: break-word; margin: 4px 0; }
+  .failure-cause-meta { font-size: 0.9em; color: #555; }
+`;
+
+// Libellés de la section des causes d'échec, partagés par le rapport, l'email, Teams et Slack
+export interface FailureClusterLabels {
+  /** Titre avec le nombre d'erreurs distinctes, ex: "Top failure causes (3 distinct errors)" */
+  title: (count: number) => string;
+  tests: (count: number) => string;
+  andMore: (count: number) => string;
+  moreErrors: (count: number) => string;
+}
+
+// Fonction pour générer la section HTML des principales causes d'échec (rapport et email)
+export function renderFailureClustersHtml(
+  clusters: FailureCluster[],
+  labels: FailureClusterLabels,
+  limit = 10,
+  maxTestsListed = 5
+): string {
+  if (clusters.length === 0) return "";
+  const shown = clusters.slice(0, limit);
+  return `
+    <div class="failure-causes">
+      <h2>🧩 ${escapeHtml(labels.title(clusters.length))}</h2>
+      ${shown
+        .map((cluster) => {
+          const titles = cluster.tests.slice(0, maxTestsListed).map((t) => escapeHtml(t.title)).join(", ");
+          const more = cluster.tests.length > maxTestsListed ? ` ${escapeHtml(labels.andMore(cluster.tests.length - maxTestsListed))}` : "";
+          return `
+      <div class="failure-cause">
+        <span class="failure-cause-count">${escapeHtml(labels.tests(cluster.tests.length))}</span>
+        <div class="failure-cause-signature">${escapeHtml(cluster.signature)}</div>
+        ${cluster.dimensions.length ? `<div class="failure-cause-meta">🏷️ ${escapeHtml(describeClusterDimensions(cluster))}</div>` : ""}
+        <div class="failure-cause-meta">🧪 ${titles}${more}</div>
+      </div>`;
+        })
+        .join("")}
+      ${clusters.length > limit ? `<div class="failure-cause-meta">${escapeHtml(labels.moreErrors(clusters.length - limit))}</div>` : ""}
+    </div>`;
+}
@@ -1,174 +1,315 @@
 
-import { Reporter, TestCase, TestResult, FullResult } from "@playwright/test/reporter";
+import { Reporter, TestCase, TestResult, FullResult, FullConfig, Suite, TestError } from "@playwright/test/reporter";
 import fs from "fs";
 import path from "path";
-import nodemailer from "nodemailer";
-import axios from "axios";
+import {
+    ParsedError,
+    TestRecord,
+    describeAttempts,
+    failureDetails,
+    groupByDescribe,
+    joinOutput,
+    lastFailedAttempt,
+    parseError,
+    recordTestResult,
+    statusBadge,
+} from "./report-model";
+import {
+    CopiedAttachment,
+    attachmentStyles,
+    copyAttachments,
+    lightboxHtml,
+    renderAttachmentsHtml,
+} from "./report-attachments";
+import { escapeHtml } from "./html-escape";
+import { MergedShards, writeShardBlob } from "./shard-blob";
+import { LiveProgress } from "./live-progress";
+import { DEFAULT_LOCALE, I18n, Locale, createI18n, resolveI18nOptions, validateI18nOptions } from "./i18n";
+import {
+    PerformanceOptions,
+    computeTimingAnalytics,
+    renderPerformanceHtml,
+    timingAnalyticsStyles,
+    validatePerformanceOptions,
+} from "./timing-analytics";
+import { computeProjectStats, projectSummaryStyles, renderProjectSummaryHtml } from "./project-summary";
+import { errorDetailsStyles, renderErrorsHtml } from "./error-details";
+import { renderStepTimelineHtml, stepTimelineStyles } from "./step-timeline";
+import { consoleOutputStyles, renderConsoleOutputHtml, renderGlobalErrorsHtml } from "./console-output";
+import { RunConfigInfo, buildRunReportJson, writeRunReportJson } from "./json-export";
+import {
+    MONO_FONT_STACK,
+    SANS_FONT_STACK,
+    renderDoughnutSvg,
+    renderLineChartSvg,
+    warnIfNotSelfContained,
+} from "./report-assets";
+import {
+    appendToHistory,
+    computeFailureTrends,
+    findFixedTests,
+    loadHistory,
+    passRate,
+    toHistoryRun,
+} from "./run-history";
+import { NotificationChannel, buildRunSummary, dispatchNotifications } from "./notifications";
+import { AlertPolicy, evaluateAlertPolicy, logAlertDecision, validateAlertPolicy } from "./alert-policy";
+import {
+    DEFAULT_TAG_SCHEMA,
+    TagSchema,
+    collectDimensionValues,
+    dimensionKeys,
+    dimensionLabel,
+    formatTagValue,
+    localizeTagSchema,
+    logTagValidation,
+    orderDimensionKeys,
+    renderTagValidationHtml,
+} from "./tag-schema";
+import {
+    CoverageAxes,
+    ExpectedCoverage,
+    buildCoverageMatrix,
+    coverageMatrixStyles,
+    renderCoverageMatrixHtml,
+} from "./coverage-matrix";
+import {
+    buildFilterDimensions,
+    renderReportFilterToolbar,
+    reportFilterScript,
+    reportFilterStyles,
+    testFilterAttributes,
+    testStatusClass,
+} from "./report-filters";
 
-// Fonction pour supprimer les codes ANSI
-function stripAnsiCodes(str: string): string {
-    return str.replace(/\x1B\[[0-9;]*[a-zA-Z]/g, "");
-}
+const HISTORY_SIZE = 30;
+const HISTORY_CHART_RUNS = 10;
 
-// Fonction pour extraire les tags depuis test.info().tags
-function extractTags(test: TestCase): string[] {
-    const tags = test.tags || [];
-    return tags.length > 0 ? tags : ["Aucun tag"];
+// Options du reporter, passées via `reporter: [['./full-test-report.ts', { ... }]]`
+export interface FullTestReportOptions {
+    /** Dossier de sortie du rapport, de l'historique et des pièces jointes (env: REPORT_OUTPUT_DIR, défaut: costum-report) */
+    outputDir?: string;
+    /** Dimensions du schéma en ligne et en colonne de la grille de couverture (défaut: realm × local) */
+    coverageAxes?: CoverageAxes;
+    /** Combinaisons attendues (valeur de ligne -> valeurs de colonne), les combinaisons non testées sont signalées */
+    expectedCoverage?: ExpectedCoverage;
+    /** Dimensions portées par les tags (défaut: local, realm, payment_method) */
+    tagSchema?: TagSchema;
+    /** Mode shard : écrire les résultats dans un blob au lieu du rapport (env: REPORT_SHARD_MODE) */
+    shardMode?: boolean;
+    /** Dossier des blobs de shards (env: REPORT_BLOB_DIR, défaut: <outputDir>/blob) */
+    blobDir?: string;
+    /** Page live et instantané JSON mis à jour pendant le run, rapport partiel si le run est tué (env: REPORT_LIVE_PROGRESS, défaut: true) */
+    liveProgress?: boolean;
+    /** Rafraîchissement de la page live, en secondes (défaut: 5) */
+    liveRefreshSeconds?: number;
+    /** Canaux de notification appelés en fin de run (EmailChannel, TeamsChannel, WebhookChannel ou personnalisés) */
+    channels?: NotificationChannel[];
+    /** Politique d'alerte appliquée avant de notifier les canaux (seuils, nouveaux échecs, run vert, suppressions) */
+    alertPolicy?: AlertPolicy;
+    /** Section performance : tests les plus lents, proches du timeout, plus lents que d'habitude */
+    performance?: PerformanceOptions;
+    /**
+     * Langue du rapport et des notifications, "en" ou "fr" (env: REPORT_LOCALE, défaut: en, comme le failed-report).
+     * Le rapport complet était en français par défaut : passer locale: "fr" ou REPORT_LOCALE=fr pour le conserver.
+     */
+    locale?: Locale;
+    /** Fuseau horaire IANA des dates affichées (env: REPORT_TIMEZONE, défaut: Europe/Paris) */
+    timeZone?: string;
 }
 
-// Fonction pour parser les tags et extraire les données
-function extractDataFromTags(tags: string[], testTitle: string): {
-    local: string;
-    realm: string;
-    customTags: { [key: string]: string | string[] };
-} {
-    const data = {
-        local: "N/A",
-        realm: "N/A",
-        customTags: {},
-    };
+class CustomEmailReporter implements Reporter {
+    private tests: Map<string, TestRecord> = new Map();
+    private globalErrors: ParsedError[] = [];
+    private runnerOutput = { stdout: [] as string[], stderr: [] as string[] };
+    private config: RunConfigInfo;
+    private options: FullTestReportOptions;
+    private live: LiveProgress | undefined;
+    private beganAt: number | undefined;
+    // Créé une fois les options validées, une locale ou un fuseau inconnu ferait échouer Intl
+    private i18n: I18n;
 
-    for (const tag of tags) {
-        if (tag.startsWith("@local:") || tag.startsWith("@locale:")) {
-            data.local = tag.replace(/^@(local|locale):/, "");
-        } else if (tag.startsWith("@realm:")) {
-            data.realm = tag.replace("@realm:", "");
-        } else if (tag.startsWith("@payment_method:")) {
-            if (!data.customTags["payment_method"]) data.customTags["payment_method"] = [];
-            (data.customTags["payment_method"] as string[]).push(tag.replace("@payment_method:", ""));
-        } else if (tag.startsWith("@") && tag.includes(":")) {
-            const [key, value] = tag.slice(1).split(":");
-            data.customTags[key] = value;
+    // Les options sont validées dès la construction : une configuration invalide fait échouer le reporter
+    // une seule fois, avant le run, au lieu de faire échouer chacun de ses hooks
+    constructor(options: FullTestReportOptions = {}) {
+        const outputDir = options.outputDir ?? process.env.REPORT_OUTPUT_DIR ?? "costum-report";
+        this.options = {
+            ...options,
+            outputDir,
+            tagSchema: options.tagSchema ?? DEFAULT_TAG_SCHEMA,
+            coverageAxes: options.coverageAxes ?? { rows: "realm", columns: "local" },
+            shardMode: options.shardMode ?? ["1", "true", "yes"].includes((process.env.REPORT_SHARD_MODE || "").toLowerCase()),
+            blobDir: options.blobDir ?? process.env.REPORT_BLOB_DIR ?? path.join(outputDir, "blob"),
+            liveProgress: options.liveProgress ?? !["0", "false", "no"].includes((process.env.REPORT_LIVE_PROGRESS || "").toLowerCase()),
+            ...resolveI18nOptions(options, process.env, "full-test-report"),
+        };
+        // Changement de langue par défaut (anciennement "fr") signalé tant qu'aucune langue n'est configurée
+        if (options.locale === undefined && !process.env.REPORT_LOCALE) {
+            console.log(`ℹ️ full-test-report: the report language now defaults to "${DEFAULT_LOCALE}" (previously "fr"), set locale: "fr" or REPORT_LOCALE=fr to keep French.`);
         }
+        this.validateOptions();
     }
 
-    if (data.local === "N/A" || data.realm === "N/A" ) {
-        console.warn(`Missing data for test "${testTitle}":`, data);
+    // Fonction pour valider les options puis préparer la langue du rapport, lève une erreur si une option est invalide
+    private validateOptions() {
+        const problems = [
+            ...validateAlertPolicy(this.options.alertPolicy || {}),
+            ...validatePerformanceOptions(this.options.performance || {}),
+            ...validateI18nOptions(this.options.locale, this.options.timeZone),
+        ];
+        if (!this.options.outputDir) problems.push("outputDir must not be empty");
+        const refresh = this.options.liveRefreshSeconds;
+        if (refresh !== undefined && (!Number.isInteger(refresh) || refresh <= 0)) {
+            problems.push(`liveRefreshSeconds must be a positive integer (got "${refresh}")`);
+        }
+        if (problems.length > 0) {
+            throw new Error(`Invalid full-test-report options:\n  - ${problems.join("\n  - ")}`);
+        }
+        this.i18n = createI18n(this.options.locale, this.options.timeZone);
+        this.options = { ...this.options, tagSchema: localizeTagSchema(this.options.tagSchema, this.i18n.messages.dimensionLabels) };
     }
 
-    return data;
-}
+    onBegin(config: FullConfig, suite: Suite) {
+        this.config = config;
+        this.beganAt = Date.now();
 
-class CustomEmailReporter implements Reporter {
-    private tests: Map<
-        string,
-        Array<{
-            title: string;
-            location: string;
-            duration: number;
-            status: string;
-            rawError?: string;
-            expected?: string[];
-            actual?: string[];
-            tags: string[];
-            local: string;
-            realm: string;
-            customTags: { [key: string]: string | string[] };
-        }>
-    > = new Map();
+        if (this.options.liveProgress) {
+            this.live = new LiveProgress({
+                outputDir: this.options.outputDir,
+                reportName: "full-test-report",
+                title: this.i18n.messages.fullReport.title,
+                reportFileName: "full-test-report.html",
+                refreshSeconds: this.options.liveRefreshSeconds,
+                i18n: this.i18n,
+            });
+            this.live.begin(suite.allTests().length, () => Array.from(this.tests.values()));
+        }
+    }
 
-    onTestEnd(test: TestCase, result: TestResult) {
-        const loc = test.location ? `${path.basename(test.location.file)}:${test.location.line}` : "unknown";
-        const describeName = test.parent?.title || "Tests sans describe";
-        const tags = extractTags(test);
+    // Erreurs hors test : global setup, crash de worker, configuration invalide
+    onError(error: TestError) {
+        this.globalErrors.push(parseError(error, this.i18n.messages.common.noErrorMessage));
+    }
 
-        // Extraire les données des tags
-        const { local, realm, customTags } = extractDataFromTags(tags, test.title);
+    // La sortie des tests est déjà dans result.stdout / result.stderr, seule celle du runner est conservée ici
+    onStdOut(chunk: string | Buffer, test?: TestCase) {
+        if (!test) this.runnerOutput.stdout.push(chunk.toString());
+    }
 
-        const testData: {
-            title: string;
-            location: string;
-            duration: number;
-            status: string;
-            tags: string[];
-            local: string;
-            realm: string;
-            customTags: {[key: string]: string | string[]} ;
-            rawError?: string;
-            expected?: string[];
-            actual?: string[];
-        } = {
-            title: test.title,
-            location: loc,
-            duration: result.duration,
-            status: result.status,
-            tags,
-            local,
-            realm,
-            customTags,
-            rawError: undefined,
-            expected: undefined,
-            actual: undefined,
-        };
+    onStdErr(chunk: string | Buffer, test?: TestCase) {
+        if (!test) this.runnerOutput.stderr.push(chunk.toString());
+    }
 
-        if (result.status === "failed") {
-            for (const error of result.errors) {
-                const raw = error.message || "No error message";
-                const cleanedRaw = stripAnsiCodes(raw);
-                const expected = Array.from(raw.matchAll(/Expected(?: value)?:\s*([^\n]+)/gi)).map((m) =>
-                    stripAnsiCodes(m[1].trim())
-                );
-                const actual = Array.from(raw.matchAll(/(?:Received|Actual):\s*([^\n]+)/gi)).map((m) =>
-                    stripAnsiCodes(m[1].trim())
-                );
-                testData.rawError = cleanedRaw;
-                testData.expected = expected;
-                testData.actual = actual;
-            }
+    onTestEnd(test: TestCase, result: TestResult) {
+        recordTestResult(this.tests, test, result, {
+            noTags: this.i18n.messages.common.noTags,
+            noDescribe: this.i18n.messages.common.noDescribe,
+            noErrorMessage: this.i18n.messages.common.noErrorMessage,
+            outputTruncated: this.i18n.messages.common.outputTruncated,
+            tagSchema: this.options.tagSchema,
+        });
+        this.live?.update();
+    }
+
+    // Si onEnd échoue, la page live reste en l'état et devient un rapport partiel à la sortie du process
+    async onEnd(result: FullResult) {
+        // En mode shard, la fusion (merge-reports.ts) génère le rapport
+        if (this.options.shardMode) {
+            writeShardBlob(
+                this.options.blobDir,
+                "full-test-report",
+                Array.from(this.tests.values()),
+                result,
+                this.config,
+                this.globalErrors
+            );
+            this.live?.finish(false);
+            return;
         }
+        await this.generateReport(result);
+        this.live?.finish();
+    }
 
-        const tests = this.tests.get(describeName) || [];
-        tests.push(testData);
-        this.tests.set(describeName, tests);
+    // Fonction pour générer le rapport à partir des résultats fusionnés des shards
+    async onMergedEnd(merged: MergedShards) {
+        this.config = merged.config;
+        this.tests = new Map(merged.records.map((record) => [record.id, record]));
+        this.globalErrors = merged.globalErrors;
+        await this.generateReport(merged.result);
     }
 
-    async onEnd(result: FullResult) {
-        if (this.tests.size === 0) {
-            console.log("✅ Aucun test à rapporter.");
+    private async generateReport(result: FullResult) {
+        const { i18n } = this;
+        const m = i18n.messages;
+        // Un global setup en échec ne produit aucun test, le rapport affiche alors seulement l'erreur
+        if (this.tests.size === 0 && this.globalErrors.length === 0) {
+            console.log(`✅ ${m.fullReport.nothingToReport}`);
             return;
         }
+        fs.mkdirSync(this.options.outputDir, { recursive: true });
+
+        // Enregistrer le run courant dans l'historique pour la courbe de tendance
+        const historyDir = path.join(this.options.outputDir, "history", "full-test-report");
+        const currentRun = toHistoryRun(Array.from(this.tests.values()), result.startTime, result.status);
+        const previousRuns = loadHistory(historyDir);
+        const trendRuns = [...previousRuns, currentRun].slice(-HISTORY_CHART_RUNS);
+        appendToHistory(historyDir, currentRun, HISTORY_SIZE);
+
+        // Durée réelle du run, pas la somme des durées des tests qui se chevauchent entre workers
+        const runDuration = result.duration ?? (this.beganAt ? Date.now() - this.beganAt : 0);
+        const timing = computeTimingAnalytics(
+            Array.from(this.tests.values()),
+            { duration: runDuration, workers: this.config?.workers, previousRuns },
+            this.options.performance || {},
+            this.options.tagSchema
+        );
+
+        // Un test n'apparaît qu'une fois, avec les détails de sa dernière tentative en échec
+        const groupedTests = groupByDescribe<TestRecord & Partial<ParsedError> & { attachments: CopiedAttachment[] }>(
+            Array.from(this.tests.values()).map((record) => {
+                const attempt = lastFailedAttempt(record) || record.attempts[record.attempts.length - 1];
+                return {
+                    ...record,
+                    ...failureDetails(record),
+                    attachments: copyAttachments(attempt.attachments, this.options.outputDir, record.id, attempt.retry),
+                };
+            })
+        );
 
         // Statistiques détaillées
         let totalTests = 0;
         let totalPassed = 0;
         let totalFailed = 0;
         let totalSkipped = 0;
-        let allPaymentMethods: string[] = [];
-        let allLocals: Set<string> = new Set();
-        let allRealms: Set<string> = new Set();
+        let totalFlaky = 0;
 
-        for (const tests of this.tests.values()) {
+        for (const tests of groupedTests.values()) {
             for (const t of tests) {
                 totalTests++;
-                if (t.status === "passed") totalPassed++;
-                else if (t.status === "failed") totalFailed++;
-                else if (t.status === "skipped") totalSkipped++;
-                allLocals.add(t.local);
-                allRealms.add(t.realm);
-                if (
-                    Object.prototype.hasOwnProperty.call(t.customTags, "payment_method")
-                    && t.customTags["payment_method"]
-                ) {
-                    if (Array.isArray(t.customTags["payment_method"])) {
-                        allPaymentMethods.push(...(t.customTags["payment_method"] as string[]));
-                    } else if (typeof t.customTags["payment_method"] === "string") {
-                        allPaymentMethods.push(t.customTags["payment_method"] as string);
-                    }
-                }
+                if (t.outcome === "expected") totalPassed++;
+                else if (t.outcome === "unexpected") totalFailed++;
+                else if (t.outcome === "flaky") totalFlaky++;
+                else if (t.outcome === "skipped") totalSkipped++;
             }
         }
-        // Uniques et triés
-        allPaymentMethods = Array.from(new Set(allPaymentMethods)).sort();
+        const tagSchema = this.options.tagSchema;
+        const testedValues = collectDimensionValues(Array.from(this.tests.values()).map((record) => record.dimensions));
+        // La grille de couverture n'a de sens que si ses deux axes sont des dimensions du schéma
+        const { coverageAxes } = this.options;
+        const hasCoverage = [coverageAxes.rows, coverageAxes.columns].every((name) => tagSchema.some((dimension) => dimension.name === name));
+        const axisLabels = { rows: dimensionLabel(tagSchema, coverageAxes.rows), columns: dimensionLabel(tagSchema, coverageAxes.columns) };
+        const tagIssues = Array.from(this.tests.values()).flatMap((record) => record.tagIssues);
+        logTagValidation(tagIssues, m.tagValidation);
 
         // Générer le rapport HTML complet
         const fullReportHtml = `
       <!DOCTYPE html>
-      <html lang="fr">
+      <html lang="${i18n.locale}">
       <head>
         <meta charset="UTF-8" />
-        <title>Master Data Automation Tests</title>
+        <title>${escapeHtml(m.fullReport.title)}</title>
         <style>
-          body { font-family: 'Segoe UI', sans-serif; background-color: #f6f8fa; color: #333; padding: 20px; }
+          body { font-family: ${SANS_FONT_STACK}; background-color: #f6f8fa; color: #333; padding: 20px; }
           h1 { color: #d63031; }
           .describe { margin-bottom: 20px; }
           .describe-header { background: #d63031; color: #fff; padding: 10px; border-radius: 5px; cursor: pointer; font-weight: bold; font-size: 18px; display: flex; justify-content: space-between; align-items: center; }
@@ -179,6 +320,7 @@ class CustomEmailReporter implements Reporter {
           .test.failed { border-left: 5px solid #d63031; }
           .test.passed { border-left: 5px solid #27ae60; }
           .test.skipped { border-left: 5px solid #f39c12; }
+          .test.flaky { border-left: 5px solid #e67e22; }
           .title { font-weight: bold; font-size: 17px; margin-bottom: 6px; }
           .meta { font-size: 13px; color: #555; margin-bottom: 10px; }
           .raw-error { 
@@ -186,18 +328,11 @@ class CustomEmailReporter implements Reporter {
             color: #b71c1c; 
             padding: 10px; 
             border-radius: 5px; 
-            font-family: monospace; 
+            font-family: ${MONO_FONT_STACK}; 
             font-size: 14px; 
             white-space: pre-wrap; 
             margin-bottom: 10px; 
           }
-          .payment-method{
-            font-weight: bold;
-            color: #2c3e50ff;
-            padding-right: 10px;
-            margin-right: 30px;
-            
-          }
           .details { margin-top: 10px; font-size: 14px; background: #f1f1f1; padding: 10px; border-radius: 5px; }
           .details div { margin-bottom: 4px; }
           .details span { display: inline-block; font-weight: bold; width: 90px; }
@@ -205,120 +340,108 @@ class CustomEmailReporter implements Reporter {
           .tags span { font-weight: bold; }
           .status-passed { color: #2ecc71; font-weight:600 }
           .status-failed { color: #e74c3c; font-weight:600 }
+          .status-flaky { color: #e67e22; font-weight:600 }
+          .attempts { font-size: 13px; color: #e67e22; margin-bottom: 8px; }
           footer { margin-top: 40px; font-size: 12px; color: #999; text-align: center; }
+          ${attachmentStyles}
+          ${coverageMatrixStyles}
+          ${reportFilterStyles}
+          ${errorDetailsStyles}
+          ${stepTimelineStyles}
+          ${consoleOutputStyles}
+          ${timingAnalyticsStyles}
+          ${projectSummaryStyles}
         </style>
-        <script src="https://cdn.jsdelivr.net/npm/chart.js"></script>
         <script>
-          function toggleDescribe(id) {
-            const content = document.getElementById(id);
-            content.classList.toggle('active');
-            const header = content.previousElementSibling;
-            header.textContent = header.textContent.includes('▼') ? 
-              header.textContent.replace('▼', '▶') : 
-              header.textContent.replace('▶', '▼');
-          }
-          window.onload = function() {
-            const ctx = document.getElementById('testStatsChart');
-            if (ctx) {
-              new Chart(ctx, {
-                type: 'doughnut',
-                data: {
-                  labels: ['Passés', 'Échoués', 'Ignorés'],
-                  datasets: [{
-                    data: [${totalPassed}, ${totalFailed}, ${totalSkipped}],
-                    backgroundColor: ['#27ae60', '#d63031', '#f39c12'],
-                  }]
-                },
-                options: {
-                  responsive: false,
-                  plugins: {
-                    legend: { position: 'bottom' }
-                  }
-                }
-              });
-            }
-          }
+          ${reportFilterScript}
         </script>
       </head>
       <body>
-        <h1>📊 Master Data Automation Report</h1>
+        <h1>📊 ${escapeHtml(m.fullReport.heading)}</h1>
+        ${renderGlobalErrorsHtml(this.globalErrors, {
+            stdout: joinOutput(this.runnerOutput.stdout, m.common.outputTruncated),
+            stderr: joinOutput(this.runnerOutput.stderr, m.common.outputTruncated),
+        }, m.globalErrors, m.errors)}
         <div style="background:#fff;border-radius:8px;box-shadow:0 1px 4px #ccc;padding:18px 24px 10px 24px;max-width:900px;margin:0 auto 24px auto;">
-          <h2 style="color:#0e4ba1;margin-top:0;">Statistiques Générales</h2>
+          <h2 style="color:#0e4ba1;margin-top:0;">${escapeHtml(m.fullReport.generalStats)}</h2>
           <div style="font-size:1.1em;">
-            <b>Total tests :</b> ${totalTests} &nbsp;|&nbsp;
-            <span style="color:#2ecc71;"><b>Passed :</b> ${totalPassed}</span> &nbsp;|&nbsp;
-            <span style="color:#e74c3c;"><b>Failed :</b> ${totalFailed}</span> &nbsp;|&nbsp;
-            <span style="color:#f39c12;"><b>Ignored :</b> ${totalSkipped}</span>
-          </div>
-          <div style="margin-top:10px;">
-            <b>Tested locales:</b> ${Array.from(allLocals).join(", ")}
-          </div>
-          <div style="margin-top:4px;">
-            <b>Tested Realms:</b> ${Array.from(allRealms).join(", ")}
+            <b>${escapeHtml(m.fullReport.totalTests)} :</b> ${totalTests} &nbsp;|&nbsp;
+            <span style="color:#2ecc71;"><b>${escapeHtml(m.common.passed)} :</b> ${totalPassed}</span> &nbsp;|&nbsp;
+            <span style="color:#e74c3c;"><b>${escapeHtml(m.common.failed)} :</b> ${totalFailed}</span> &nbsp;|&nbsp;
+            <span style="color:#e67e22;"><b>${escapeHtml(m.common.flaky)} :</b> ${totalFlaky}</span> &nbsp;|&nbsp;
+            <span style="color:#f39c12;"><b>${escapeHtml(m.common.skipped)} :</b> ${totalSkipped}</span>
           </div>
-          <div style="margin-top:4px;">
-            <b>Payment Methods encountred:</b> ${allPaymentMethods.length ? allPaymentMethods.join(", ") : "Aucune"}
+          ${orderDimensionKeys(tagSchema, testedValues.keys())
+              .map((key, index) => `
+          <div style="margin-top:${index === 0 ? 10 : 4}px;">
+            <b>${escapeHtml(m.fullReport.testedValues(dimensionLabel(tagSchema, key)))} :</b> ${escapeHtml(testedValues.get(key).join(", "))}
+          </div>`)
+              .join("")}
+          ${renderProjectSummaryHtml(computeProjectStats(Array.from(this.tests.values())), m.projectSummary, m.intlLocale)}
+          <div style="margin-top:18px;text-align:center;">
+            ${renderDoughnutSvg([
+                { label: m.common.passed, value: totalPassed, color: "#27ae60" },
+                { label: m.common.failed, value: totalFailed, color: "#d63031" },
+                { label: m.common.flaky, value: totalFlaky, color: "#e67e22" },
+                { label: m.common.skipped, value: totalSkipped, color: "#f39c12" },
+            ])}
           </div>
+          ${trendRuns.length > 1 ? `
           <div style="margin-top:18px;text-align:center;">
-            <canvas id="testStatsChart" width="350" height="220"></canvas>
+            <h3 style="color:#0e4ba1;margin-bottom:4px;">${escapeHtml(m.fullReport.passRateTrend(trendRuns.length))}</h3>
+            ${renderLineChartSvg(trendRuns.map((run) => ({
+                label: i18n.formatDate(run.startTime),
+                value: passRate(run),
+            })))}
           </div>
+          ` : ""}
         </div>
-        ${Array.from(this.tests.entries())
+        ${renderTagValidationHtml(tagIssues, m.tagValidation)}
+        ${hasCoverage ? `
+        <div style="background:#fff;border-radius:8px;box-shadow:0 1px 4px #ccc;padding:18px 24px 10px 24px;max-width:900px;margin:0 auto 24px auto;">
+          <h2 style="color:#0e4ba1;margin-top:0;">${escapeHtml(m.fullReport.coverage(axisLabels.rows, axisLabels.columns))}</h2>
+          ${renderCoverageMatrixHtml(
+              buildCoverageMatrix(Array.from(this.tests.values()), coverageAxes, this.options.expectedCoverage),
+              m.coverage,
+              axisLabels
+          )}
+        </div>` : ""}
+        ${renderPerformanceHtml(timing, m.performance, m.intlLocale)}
+        ${renderReportFilterToolbar(buildFilterDimensions(Array.from(this.tests.values()), tagSchema), m.filters)}
+        ${Array.from(groupedTests.entries())
             .map(
                 ([describeName, tests], index) => `
           <div class="describe">
             <div class="describe-header" onclick="toggleDescribe('describe-${index}')">
-              ${describeName} (${tests.length} test${tests.length > 1 ? "s" : ""}) ▶
+              ${escapeHtml(describeName)} (${escapeHtml(m.common.tests(tests.length))}) ▶
             </div>
             <div class="describe-content" id="describe-${index}">
               ${tests
                   .map(
                       (t, ti) => {
-                        // Affichage correct des méthodes de paiement uniquement si présentes
-                        let paymentMethods: string[] = [];
-                        if (
-                          Object.prototype.hasOwnProperty.call(t.customTags, "payment_method")
-                          && t.customTags["payment_method"]
-                        ) {
-                          if (Array.isArray(t.customTags["payment_method"])) {
-                            paymentMethods = t.customTags["payment_method"] as string[];
-                          } else if (typeof t.customTags["payment_method"] === "string") {
-                            paymentMethods = [t.customTags["payment_method"] as string];
-                          }
-                        }
-                        const paymentMethodsHtml = paymentMethods.length
-                          ? `<div><span class="payment-method">payment_method:</span> ${paymentMethods.join(", ")}</div>`
-                          : "";
-
                         // Détermine la classe de statut pour la bordure
-                        let statusClass = "failed";
-                        if (t.status === "passed") statusClass = "passed";
-                        else if (t.status === "skipped") statusClass = "skipped";
+                        const statusClass = testStatusClass(t.outcome);
+                        const statusLabel = t.outcome === "flaky" ? "flaky" : t.status;
+                        const displayedAttempt = lastFailedAttempt(t) || t.attempts[t.attempts.length - 1];
 
                         return `
-                <div class="test ${statusClass}">
-                  <div class="title">${t.title}</div>
+                <div class="test ${statusClass}" ${testFilterAttributes(t, ti)}>
+                  <div class="title">${escapeHtml(t.title)}</div>
                   <div class="meta">
-                    📁 ${t.location} | ⏱️ ${t.duration}ms | 
-                    <span class="status-${t.status}">${t.status.toUpperCase()}</span> | 
-                    <span>Local:</span> ${t.local} | 
-                    <span>Realm:</span> ${t.realm}
+                    ${t.projectName ? `🧭 ${escapeHtml(t.projectName)} | ` : ""}📁 ${escapeHtml(t.location)} | ⏱️ ${i18n.formatNumber(t.duration)}ms | 
+                    <span class="status-${statusLabel}">${escapeHtml(statusBadge(t, m.common.statusBadges))}</span>
                   </div>
+                  ${t.attempts.length > 1 ? `<div class="attempts">🔁 ${escapeHtml(m.common.attempts)} : ${describeAttempts(t)}</div>` : ""}
                   <div class="details">
-                    ${Object.entries(t.customTags)
-                        .filter(([key]) => key !== "payment_method")
-                        .map(([key, value]) => `<div><span>${key}:</span> ${value}</div>`)
+                    ${dimensionKeys(tagSchema, [t.dimensions])
+                        .map((key) => `<div><span>${escapeHtml(dimensionLabel(tagSchema, key))}:</span> ${escapeHtml(formatTagValue(t.dimensions[key]))}</div>`)
                         .join("")}
-                    ${paymentMethodsHtml}
                   </div>
-                  <div class="tags"><span>Tags:</span> ${t.tags.join(", ")}</div>
-                  ${t.rawError ? `<div class="raw-error">${t.rawError}</div>` : ""}
-                  ${(t.expected?.length || t.actual?.length) ? `
-                    <div class="details">
-                      ${t.expected?.map((e, i) => `<div><span>Expected ${i + 1}:</span> ${e}</div>`).join("")}
-                      ${t.actual?.map((a, i) => `<div><span>Actual ${i + 1}:</span> ${a}</div>`).join("")}
-                    </div>
-                  ` : ""}
+                  <div class="tags"><span>${escapeHtml(m.common.tags)}:</span> ${escapeHtml(t.tags.join(", "))}</div>
+                  ${renderErrorsHtml(lastFailedAttempt(t)?.errors || [], m.errors)}
+                  ${renderStepTimelineHtml(displayedAttempt?.steps, displayedAttempt?.duration || 0, m.steps, m.errors)}
+                  ${renderConsoleOutputHtml(displayedAttempt?.stdout, displayedAttempt?.stderr, m.consoleOutput)}
+                  ${renderAttachmentsHtml(t.attachments)}
                 </div>
               `;
                       }
@@ -330,16 +453,45 @@ class CustomEmailReporter implements Reporter {
             )
             .join("")}
         <footer>
-          Rapport généré le ${new Date().toLocaleString()} — Playwright API Tests
+          ${escapeHtml(m.run.generatedOn(i18n.formatDate(new Date())))} — ${escapeHtml(m.run.suiteName)}
         </footer>
+        ${lightboxHtml}
       </body>
       </html>
     `;
 
         // Sauvegarder le rapport HTML complet
-        const reportPath = "costum-report/full-test-report.html";
+        const reportPath = path.join(this.options.outputDir, "full-test-report.html");
+        warnIfNotSelfContained(fullReportHtml, reportPath);
         fs.writeFileSync(reportPath, fullReportHtml, "utf-8");
-        console.log("✅ Rapport HTML complet généré : full-test-report.html");
+        console.log(`✅ ${m.run.htmlReportGenerated(reportPath)}`);
+
+        // Exporter le modèle complet du run en JSON pour les dashboards
+        writeRunReportJson(
+            path.join(this.options.outputDir, "full-test-report.json"),
+            buildRunReportJson("full-test-report", Array.from(this.tests.values()), result, this.config, this.globalErrors)
+        );
+
+        // Notifier les canaux configurés
+        if (this.options.channels?.length) {
+            const records = Array.from(this.tests.values());
+            const summary = buildRunSummary(records, {
+                title: m.fullReport.title,
+                status: result.status,
+                tagSchema,
+                trends: computeFailureTrends(records, previousRuns),
+                fixedTests: findFixedTests(records, previousRuns),
+                attachmentsDir: this.options.outputDir,
+                reportPath,
+                globalErrors: this.globalErrors,
+                runDuration,
+                workers: this.config?.workers,
+                i18n,
+            });
+            const decision = evaluateAlertPolicy(summary, this.options.alertPolicy);
+            logAlertDecision(decision);
+            if (decision.notify) await dispatchNotifications(this.options.channels, decision.summary);
+        }
     }
 }
 
@@ -0,0 +1,15 @@
+const HTML_ENTITIES: { [char: string]: string } = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+  "`": "&#96;",
+};
+
+// Fonction pour échapper une valeur contrôlée par les tests (titre, tag, erreur...) avant de l'insérer dans du HTML
+export function escapeHtml(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  const str = Array.isArray(value) ? value.join(", ") : String(value);
+  return str.replace(/[&<>"'`]/g, (char) => HTML_ENTITIES[char]);
+}
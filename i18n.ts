@@ -0,0 +1,675 @@
+import type { ErrorLabels } from "./error-details";
+import type { GlobalErrorsLabels } from "./console-output";
+import type { FailureClusterLabels } from "./failure-clusters";
+import type { TrendLabels } from "./run-history";
+import type { TagValidationLabels } from "./tag-schema";
+import type { CoverageLabels } from "./coverage-matrix";
+import type { FilterToolbarLabels } from "./report-filters";
+import type { ProjectSummaryLabels } from "./project-summary";
+import type { PerformanceLabels } from "./timing-analytics";
+import type { BundleLabels } from "./zip-bundle";
+import type { LiveProgressLabels } from "./live-progress";
+import type { StatusBadgeLabels } from "./report-model";
+import { formatDuration } from "./timing-analytics";
+
+// Langues disponibles pour les rapports et les notifications
+export type Locale = "en" | "fr";
+
+// Langue commune aux deux reporters quand ni l'option ni REPORT_LOCALE ne sont renseignées
+export const DEFAULT_LOCALE: Locale = "en";
+
+export const DEFAULT_TIME_ZONE = "Europe/Paris";
+
+// Textes des rapports et des notifications, une section par module ou par canal
+export interface Messages {
+  /** Locale BCP 47 utilisée pour formater les dates et les nombres */
+  intlLocale: string;
+  common: {
+    passed: string;
+    failed: string;
+    flaky: string;
+    skipped: string;
+    test: string;
+    file: string;
+    project: string;
+    tags: string;
+    time: string;
+    attempts: string;
+    trend: string;
+    failedStep: string;
+    owners: string;
+    expected: string;
+    actual: string;
+    error: string;
+    details: string;
+    noDetails: string;
+    /** Tag affiché pour un test sans tag */
+    noTags: string;
+    /** Groupe des tests déclarés hors de tout describe */
+    noDescribe: string;
+    tests: (count: number) => string;
+    failedTests: (count: number) => string;
+    /** Erreur affichée pour un test en échec sans message, ex: timeout du worker */
+    endedWithStatus: (status: string) => string;
+    /** Message d'une erreur Playwright sans message */
+    noErrorMessage: string;
+    /** Mention ajoutée en fin de sortie console tronquée */
+    outputTruncated: (count: number) => string;
+    statusBadges: StatusBadgeLabels;
+  };
+  /** Libellés des dimensions du schéma de tags qui n'en déclarent pas, ex: { realm: "Realm" } */
+  dimensionLabels: { [dimension: string]: string };
+  /** Résumé du run, partagé par le failed-report et les canaux de notification */
+  run: {
+    runDuration: string;
+    failedTestsDuration: (duration: string) => string;
+    workers: (count: number) => string;
+    /** Les compteurs arrivent déjà mis en forme (ex: "<strong>3</strong>") */
+    describeBlocks: (count: string) => string;
+    totalFailed: (count: string) => string;
+    flaky: (count: string) => string;
+    newAndFixed: (newCount: string, fixedCount: string) => string;
+    generatedOn: (date: string) => string;
+    /** Nom de la suite affiché en pied des rapports et des emails */
+    suiteName: string;
+    /** Log de fin de génération, commun aux deux reporters */
+    htmlReportGenerated: (reportPath: string) => string;
+    headlineGlobalErrors: (title: string, count: number) => string;
+    headlineAllPassed: (title: string, count: number, flakyCount: number) => string;
+    globalErrors: (count: number) => string;
+    globalErrorsHint: string;
+    flakyTitle: (count: number) => string;
+    fixedTitle: (count: number) => string;
+    andMore: (count: number) => string;
+  };
+  errors: ErrorLabels;
+  steps: string;
+  consoleOutput: string;
+  globalErrors: GlobalErrorsLabels;
+  failureClusters: FailureClusterLabels;
+  trend: TrendLabels;
+  tagValidation: TagValidationLabels;
+  coverage: CoverageLabels;
+  filters: FilterToolbarLabels;
+  projectSummary: ProjectSummaryLabels;
+  performance: PerformanceLabels;
+  bundle: BundleLabels;
+  live: LiveProgressLabels;
+  fullReport: {
+    title: string;
+    heading: string;
+    generalStats: string;
+    totalTests: string;
+    testedValues: (dimension: string) => string;
+    passRateTrend: (runCount: number) => string;
+    coverage: (rows: string, columns: string) => string;
+    nothingToReport: string;
+  };
+  failedReport: {
+    title: string;
+    /** Titre des notifications d'un run sans échec */
+    passingTitle: string;
+    expectedData: string;
+  };
+  email: {
+    greeting: string;
+    intro: string;
+    allPassed: string;
+    subjectAllPassed: string;
+    notAttached: (reason: string) => string;
+    openAt: (target: string) => string;
+    zipContents: (zipName: string, attachmentCount: number, htmlName: string) => string;
+    openReport: string;
+    screenshot: string;
+  };
+  /** Cartes Teams et messages Slack */
+  notification: {
+    generatedOn: (date: string) => string;
+    openFullReport: string;
+    totalFailed: string;
+    flaky: string;
+    newFailures: string;
+    fixed: string;
+    describeBlocks: string;
+    part: (index: number) => string;
+    moreNotShown: (count: number, target: string) => string;
+    seeFullReport: string;
+    seeEmailedReport: string;
+    sectionsOmitted: (count: number) => string;
+  };
+}
+
+// Badges de statut, partagés par les rapports, la grille de couverture et la page live
+const EN_STATUS_BADGES: StatusBadgeLabels = {
+  passed: "PASSED",
+  failed: "FAILED",
+  timedOut: "TIMED OUT",
+  skipped: "SKIPPED",
+  interrupted: "INTERRUPTED",
+  flaky: "FLAKY",
+};
+
+const FR_STATUS_BADGES: StatusBadgeLabels = {
+  passed: "PASSÉ",
+  failed: "ÉCHOUÉ",
+  timedOut: "TIMEOUT",
+  skipped: "IGNORÉ",
+  interrupted: "INTERROMPU",
+  flaky: "FLAKY",
+};
+
+const EN: Messages = {
+  intlLocale: "en-GB",
+  common: {
+    passed: "Passed",
+    failed: "Failed",
+    flaky: "Flaky",
+    skipped: "Skipped",
+    test: "Test",
+    file: "File",
+    project: "Project",
+    tags: "Tags",
+    time: "Time",
+    attempts: "Attempts",
+    trend: "Trend",
+    failedStep: "Failed step",
+    owners: "Owners",
+    expected: "Expected",
+    actual: "Actual",
+    error: "Error",
+    details: "Details",
+    noDetails: "No details",
+    noTags: "No tags",
+    noDescribe: "Tests without describe",
+    tests: (count) => `${count} test${count > 1 ? "s" : ""}`,
+    failedTests: (count) => `${count} failed test${count > 1 ? "s" : ""}`,
+    endedWithStatus: (status) => `Test ended with status "${status}"`,
+    noErrorMessage: "No error message",
+    outputTruncated: (count) => `… ${count} more character(s) truncated`,
+    statusBadges: EN_STATUS_BADGES,
+  },
+  dimensionLabels: { local: "Local", realm: "Realm" },
+  run: {
+    runDuration: "Run duration",
+    failedTestsDuration: (duration) => `failed tests: ${duration}`,
+    workers: (count) => `${count} worker${count > 1 ? "s" : ""}`,
+    describeBlocks: (count) => `${count} describe block(s) with failed tests.`,
+    totalFailed: (count) => `${count} total failed test(s).`,
+    flaky: (count) => `${count} flaky test(s) (passed on retry).`,
+    newAndFixed: (newCount, fixedCount) => `${newCount} new failure(s) since last run, ${fixedCount} fixed.`,
+    generatedOn: (date) => `Report generated on ${date}`,
+    suiteName: "Playwright API Tests",
+    htmlReportGenerated: (reportPath) => `Full HTML report generated: ${reportPath}`,
+    headlineGlobalErrors: (title, count) => `${title}: ${count} global error(s)`,
+    headlineAllPassed: (title, count, flakyCount) =>
+      `${title}: all ${count} test(s) passed${flakyCount ? `, ${flakyCount} flaky` : ""}`,
+    globalErrors: (count) => `Global errors outside tests (${count})`,
+    globalErrorsHint: "global setup, worker crash, configuration",
+    flakyTitle: (count) => `Flaky Tests (${count}) — passed after retry`,
+    fixedTitle: (count) => `Fixed since last run (${count})`,
+    andMore: (count) => `…and ${count} more`,
+  },
+  errors: {
+    error: "Error",
+    fullMessage: "Full message",
+    stackTrace: "Stack trace",
+    diffExpected: "Expected",
+    diffReceived: "Received",
+  },
+  steps: "Steps",
+  consoleOutput: "Console output",
+  globalErrors: {
+    title: "Global errors",
+    description: "Errors raised outside any test (global setup, worker crash, configuration): the results below may be incomplete.",
+    output: "Runner output",
+  },
+  failureClusters: {
+    title: (count) => `Top failure causes (${count} distinct error${count > 1 ? "s" : ""})`,
+    tests: (count) => `${count} test${count > 1 ? "s" : ""}`,
+    andMore: (count) => `and ${count} more`,
+    moreErrors: (count) => `${count} more distinct error(s) in the details below.`,
+  },
+  trend: {
+    newSinceLastRun: "New since last run",
+    stillFailing: (failingRuns) => `Still failing (${failingRuns} runs)`,
+  },
+  tagValidation: {
+    title: (issueCount) => `Tag validation (${issueCount} issue${issueCount > 1 ? "s" : ""})`,
+    summary: (issueCount, testCount) => `Tag validation: ${issueCount} issue(s) in ${testCount} test(s)`,
+    missing: (dimension) => `missing @${dimension}`,
+    notAllowed: (dimension, value) => `@${dimension}:${value} is not an allowed value`,
+    duplicate: (dimension, value) => `@${dimension} set more than once (kept "${value}")`,
+  },
+  coverage: {
+    corner: (rows, columns) => `${rows} \\ ${columns}`,
+    gap: "gap",
+    gapTitle: "Expected but not tested",
+    gaps: "Coverage gaps",
+    statusBadges: EN_STATUS_BADGES,
+  },
+  filters: {
+    status: "Status",
+    statuses: { passed: "Passed", failed: "Failed", flaky: "Flaky", skipped: "Skipped" },
+    all: "All",
+    search: "Search",
+    searchPlaceholder: "Title or error text",
+    sort: "Sort",
+    runOrder: "Run order",
+    durationDesc: "Longest first",
+    durationAsc: "Shortest first",
+    expandAll: "Expand all",
+    collapseAll: "Collapse all",
+    reset: "Reset",
+    shown: "tests shown",
+    noMatch: "No test matches the filters.",
+  },
+  projectSummary: {
+    title: "Results per project",
+    project: "Project",
+    unnamed: "(default)",
+    total: "Total",
+    passed: "Passed",
+    failed: "Failed",
+    flaky: "Flaky",
+    skipped: "Skipped",
+    duration: "Duration",
+  },
+  performance: {
+    title: "Performance",
+    wallClock: "Run duration",
+    workers: "Workers",
+    totalTestDuration: "Cumulated test time",
+    parallelism: "Effective parallelism",
+    slowest: "Slowest tests",
+    test: "Test",
+    group: "Group",
+    duration: "Duration",
+    byDescribe: "Durations per describe block",
+    byDimension: (dimension) => `Durations per ${dimension}`,
+    count: "Tests",
+    max: "Max",
+    nearTimeout: "Close to their timeout",
+    timeout: "Timeout",
+    timedOut: "TIMED OUT",
+    regressions: "Slower than usual",
+    baseline: "Usual duration",
+    more: (count) => `…and ${count} more`,
+  },
+  bundle: {
+    notFound: (fileName) => `${fileName} was not found`,
+    fileTooLarge: (fileName, size, maxSize) => `${fileName} is ${size}, over the ${maxSize} attachment limit`,
+    bundleTooLarge: (attachmentCount, size, maxSize) =>
+      `the report and its ${attachmentCount} attachment(s) weigh ${size}, over the ${maxSize} attachment limit`,
+    zipTooLarge: (size, maxSize) => `the zipped report is ${size}, over the ${maxSize} attachment limit`,
+    otherTeams: "it also lists the failures of other teams",
+  },
+  live: {
+    running: "Running",
+    finished: "Finished",
+    interrupted: "Interrupted — partial report",
+    openFinalReport: "open the final report",
+    progress: (startedAt, elapsed, updatedAt) => `Started ${startedAt} — elapsed ${elapsed} — updated ${updatedAt}`,
+    passed: "passed",
+    failed: "failed",
+    flaky: "flaky",
+    skipped: "skipped",
+    failedSoFar: (count) => `Failed so far (${count})`,
+    allCompleted: (count) => `All completed tests (${count})`,
+    completedLatestFirst: (count) => `Completed tests, latest first (${count})`,
+    status: "Status",
+    statusBadges: EN_STATUS_BADGES,
+    test: "Test",
+    group: "Group",
+    error: "Error",
+    duration: "Duration",
+  },
+  fullReport: {
+    title: "Master Data Automation Report",
+    heading: "Master Data Automation Report",
+    generalStats: "General statistics",
+    totalTests: "Total tests",
+    testedValues: (dimension) => `Tested ${dimension} values`,
+    passRateTrend: (runCount) => `Pass rate over the last ${runCount} runs`,
+    coverage: (rows, columns) => `${rows} × ${columns} coverage`,
+    nothingToReport: "No test to report.",
+  },
+  failedReport: {
+    title: "Master Data Failed Tests",
+    passingTitle: "Master Data Tests",
+    expectedData: "Expected Data",
+  },
+  email: {
+    greeting: "Dear All",
+    intro: "Please find attached the full report. Summary of failed tests:",
+    allPassed: "All tests passed on this run.",
+    subjectAllPassed: "✅ All passed - ",
+    notAttached: (reason) => `The full report is not attached: ${reason}.`,
+    openAt: (target) => `Open it at ${target}`,
+    zipContents: (zipName, attachmentCount, htmlName) =>
+      `The attached ${zipName} contains the HTML report and ${attachmentCount} test attachment(s): unzip it and open ${htmlName}.`,
+    openReport: "Open the report",
+    screenshot: "Screenshot",
+  },
+  notification: {
+    generatedOn: (date) => `Generated on ${date}`,
+    openFullReport: "Open full report",
+    totalFailed: "Total Failed Tests",
+    flaky: "Flaky Tests",
+    newFailures: "New Failures",
+    fixed: "Fixed Since Last Run",
+    describeBlocks: "Describe Blocks",
+    part: (index) => `part ${index}`,
+    moreNotShown: (count, target) => `${count} more failed test(s) not shown, ${target}.`,
+    seeFullReport: "see full report",
+    seeEmailedReport: "see the emailed HTML report",
+    sectionsOmitted: (count) => `${count} more section(s) omitted, see the full report.`,
+  },
+};
+
+const FR: Messages = {
+  intlLocale: "fr-FR",
+  common: {
+    passed: "Passés",
+    failed: "Échoués",
+    flaky: "Flaky",
+    skipped: "Ignorés",
+    test: "Test",
+    file: "Fichier",
+    project: "Projet",
+    tags: "Tags",
+    time: "Durée",
+    attempts: "Tentatives",
+    trend: "Tendance",
+    failedStep: "Étape en échec",
+    owners: "Équipes",
+    expected: "Attendu",
+    actual: "Obtenu",
+    error: "Erreur",
+    details: "Détails",
+    noDetails: "Aucun détail",
+    noTags: "Aucun tag",
+    noDescribe: "Tests sans describe",
+    tests: (count) => `${count} test${count > 1 ? "s" : ""}`,
+    failedTests: (count) => `${count} test${count > 1 ? "s" : ""} en échec`,
+    endedWithStatus: (status) => `Test terminé avec le statut "${status}"`,
+    noErrorMessage: "Aucun message d'erreur",
+    outputTruncated: (count) => `… ${count} caractère(s) de plus tronqué(s)`,
+    statusBadges: FR_STATUS_BADGES,
+  },
+  dimensionLabels: { local: "Locale", realm: "Realm" },
+  run: {
+    runDuration: "Durée du run",
+    failedTestsDuration: (duration) => `tests en échec : ${duration}`,
+    workers: (count) => `${count} worker${count > 1 ? "s" : ""}`,
+    describeBlocks: (count) => `${count} describe(s) avec des tests en échec.`,
+    totalFailed: (count) => `${count} test(s) en échec au total.`,
+    flaky: (count) => `${count} test(s) flaky (réussis après retry).`,
+    newAndFixed: (newCount, fixedCount) => `${newCount} nouvel(s) échec(s) depuis le dernier run, ${fixedCount} corrigé(s).`,
+    generatedOn: (date) => `Rapport généré le ${date}`,
+    suiteName: "Tests d'API Playwright",
+    htmlReportGenerated: (reportPath) => `Rapport HTML complet généré : ${reportPath}`,
+    headlineGlobalErrors: (title, count) => `${title} : ${count} erreur(s) globale(s)`,
+    headlineAllPassed: (title, count, flakyCount) =>
+      `${title} : les ${count} test(s) sont passés${flakyCount ? `, ${flakyCount} flaky` : ""}`,
+    globalErrors: (count) => `Erreurs globales hors des tests (${count})`,
+    globalErrorsHint: "global setup, crash de worker, configuration",
+    flakyTitle: (count) => `Tests flaky (${count}) — réussis après retry`,
+    fixedTitle: (count) => `Corrigés depuis le dernier run (${count})`,
+    andMore: (count) => `…et ${count} de plus`,
+  },
+  errors: {
+    error: "Erreur",
+    fullMessage: "Message complet",
+    stackTrace: "Stack trace",
+    diffExpected: "Attendu",
+    diffReceived: "Reçu",
+  },
+  steps: "Étapes",
+  consoleOutput: "Sortie console",
+  globalErrors: {
+    title: "Erreurs globales",
+    description: "Erreurs survenues hors des tests (global setup, crash de worker, configuration) : les résultats ci-dessous peuvent être incomplets.",
+    output: "Sortie du runner",
+  },
+  failureClusters: {
+    title: (count) => `Principales causes d'échec (${count} erreur${count > 1 ? "s" : ""} distincte${count > 1 ? "s" : ""})`,
+    tests: (count) => `${count} test${count > 1 ? "s" : ""}`,
+    andMore: (count) => `et ${count} de plus`,
+    moreErrors: (count) => `${count} autre(s) erreur(s) distincte(s) dans le détail ci-dessous.`,
+  },
+  trend: {
+    newSinceLastRun: "Nouveau depuis le dernier run",
+    stillFailing: (failingRuns) => `Toujours en échec (${failingRuns} runs)`,
+  },
+  tagValidation: {
+    title: (issueCount) => `Validation des tags (${issueCount} problème${issueCount > 1 ? "s" : ""})`,
+    summary: (issueCount, testCount) => `Validation des tags : ${issueCount} problème(s) dans ${testCount} test(s)`,
+    missing: (dimension) => `@${dimension} manquant`,
+    notAllowed: (dimension, value) => `@${dimension}:${value} n'est pas une valeur autorisée`,
+    duplicate: (dimension, value) => `@${dimension} défini plusieurs fois ("${value}" conservé)`,
+  },
+  coverage: {
+    corner: (rows, columns) => `${rows} \\ ${columns}`,
+    gap: "manquant",
+    gapTitle: "Attendu mais non testé",
+    gaps: "Combinaisons non couvertes",
+    statusBadges: FR_STATUS_BADGES,
+  },
+  filters: {
+    status: "Statut",
+    statuses: { passed: "Passé", failed: "Échoué", flaky: "Flaky", skipped: "Ignoré" },
+    all: "Tous",
+    search: "Recherche",
+    searchPlaceholder: "Titre ou texte d'erreur",
+    sort: "Tri",
+    runOrder: "Ordre du run",
+    durationDesc: "Durée décroissante",
+    durationAsc: "Durée croissante",
+    expandAll: "Tout déplier",
+    collapseAll: "Tout replier",
+    reset: "Réinitialiser",
+    shown: "tests affichés",
+    noMatch: "Aucun test ne correspond aux filtres.",
+  },
+  projectSummary: {
+    title: "Résultats par projet",
+    project: "Projet",
+    unnamed: "(défaut)",
+    total: "Total",
+    passed: "Passés",
+    failed: "Échoués",
+    flaky: "Flaky",
+    skipped: "Ignorés",
+    duration: "Durée",
+  },
+  performance: {
+    title: "Performance",
+    wallClock: "Durée du run",
+    workers: "Workers",
+    totalTestDuration: "Temps cumulé des tests",
+    parallelism: "Parallélisme effectif",
+    slowest: "Tests les plus lents",
+    test: "Test",
+    group: "Groupe",
+    duration: "Durée",
+    byDescribe: "Durées par describe",
+    byDimension: (dimension) => `Durées par ${dimension}`,
+    count: "Tests",
+    max: "Max",
+    nearTimeout: "Proches de leur timeout",
+    timeout: "Timeout",
+    timedOut: "TIMEOUT",
+    regressions: "Plus lents que d'habitude",
+    baseline: "Durée habituelle",
+    more: (count) => `…et ${count} de plus`,
+  },
+  bundle: {
+    notFound: (fileName) => `${fileName} est introuvable`,
+    fileTooLarge: (fileName, size, maxSize) => `${fileName} pèse ${size}, au-delà de la limite de ${maxSize} par pièce jointe`,
+    bundleTooLarge: (attachmentCount, size, maxSize) =>
+      `le rapport et ses ${attachmentCount} pièce(s) jointe(s) pèsent ${size}, au-delà de la limite de ${maxSize} par pièce jointe`,
+    zipTooLarge: (size, maxSize) => `le rapport zippé pèse ${size}, au-delà de la limite de ${maxSize} par pièce jointe`,
+    otherTeams: "il contient aussi les échecs des autres équipes",
+  },
+  live: {
+    running: "En cours",
+    finished: "Terminé",
+    interrupted: "Interrompu — rapport partiel",
+    openFinalReport: "ouvrir le rapport final",
+    progress: (startedAt, elapsed, updatedAt) => `Démarré le ${startedAt} — écoulé ${elapsed} — mis à jour à ${updatedAt}`,
+    passed: "passés",
+    failed: "échoués",
+    flaky: "flaky",
+    skipped: "ignorés",
+    failedSoFar: (count) => `Échecs jusqu'ici (${count})`,
+    allCompleted: (count) => `Tous les tests terminés (${count})`,
+    completedLatestFirst: (count) => `Tests terminés, du plus récent au plus ancien (${count})`,
+    status: "Statut",
+    statusBadges: FR_STATUS_BADGES,
+    test: "Test",
+    group: "Groupe",
+    error: "Erreur",
+    duration: "Durée",
+  },
+  fullReport: {
+    title: "Master Data Automation Report",
+    heading: "Master Data Automation Report",
+    generalStats: "Statistiques Générales",
+    totalTests: "Total des tests",
+    testedValues: (dimension) => `Valeurs de ${dimension} testées`,
+    passRateTrend: (runCount) => `Taux de réussite sur les ${runCount} derniers runs`,
+    coverage: (rows, columns) => `Couverture ${rows} × ${columns}`,
+    nothingToReport: "Aucun test à rapporter.",
+  },
+  failedReport: {
+    title: "Master Data - Tests en échec",
+    passingTitle: "Master Data - Tests",
+    expectedData: "Données attendues",
+  },
+  email: {
+    greeting: "Bonjour à tous,",
+    intro: "Vous trouverez ci-joint le rapport complet. Résumé des tests en échec :",
+    allPassed: "Tous les tests sont passés sur ce run.",
+    subjectAllPassed: "✅ Tout est passé - ",
+    notAttached: (reason) => `Le rapport complet n'est pas joint : ${reason}.`,
+    openAt: (target) => `Il est disponible ici : ${target}`,
+    zipContents: (zipName, attachmentCount, htmlName) =>
+      `Le fichier ${zipName} joint contient le rapport HTML et ${attachmentCount} pièce(s) jointe(s) des tests : décompressez-le puis ouvrez ${htmlName}.`,
+    openReport: "Ouvrir le rapport",
+    screenshot: "Capture d'écran",
+  },
+  notification: {
+    generatedOn: (date) => `Généré le ${date}`,
+    openFullReport: "Ouvrir le rapport complet",
+    totalFailed: "Tests en échec",
+    flaky: "Tests flaky",
+    newFailures: "Nouveaux échecs",
+    fixed: "Corrigés depuis le dernier run",
+    describeBlocks: "Describes",
+    part: (index) => `partie ${index}`,
+    moreNotShown: (count, target) => `${count} autre(s) test(s) en échec non affiché(s), ${target}.`,
+    seeFullReport: "voir le rapport complet",
+    seeEmailedReport: "voir le rapport HTML envoyé par email",
+    sectionsOmitted: (count) => `${count} section(s) omise(s), voir le rapport complet.`,
+  },
+};
+
+export const MESSAGES: { [locale in Locale]: Messages } = { en: EN, fr: FR };
+
+// Catalogue de messages et mise en forme des dates et nombres, dans une locale et un fuseau horaire explicites
+export interface I18n {
+  locale: Locale;
+  timeZone: string;
+  messages: Messages;
+  /** Date et heure, ex: "19/10/2026 14:03:22 UTC+2" */
+  formatDate(date: Date | string | number): string;
+  formatTime(date: Date | string | number): string;
+  formatNumber(value: number): string;
+  /** Durée lisible, ex: "12,3 s" en français */
+  formatDuration(ms: number): string;
+}
+
+/**
+ * Fonction pour créer le catalogue d'un reporter.
+ * Les dates ne dépendent ni de la locale ni du fuseau horaire de la machine de CI.
+ */
+export function createI18n(locale: Locale, timeZone = DEFAULT_TIME_ZONE): I18n {
+  const messages = MESSAGES[locale];
+  const dateFormat = new Intl.DateTimeFormat(messages.intlLocale, {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    timeZoneName: "short",
+  });
+  const timeFormat = new Intl.DateTimeFormat(messages.intlLocale, {
+    timeZone,
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+  const numberFormat = new Intl.NumberFormat(messages.intlLocale);
+
+  return {
+    locale,
+    timeZone,
+    messages,
+    formatDate: (date) => dateFormat.format(new Date(date)),
+    formatTime: (date) => timeFormat.format(new Date(date)),
+    formatNumber: (value) => numberFormat.format(value),
+    formatDuration: (ms) => formatDuration(ms, messages.intlLocale),
+  };
+}
+
+// Fonction pour savoir si une langue a un catalogue
+export function isLocale(value: string): value is Locale {
+  return Object.prototype.hasOwnProperty.call(MESSAGES, value);
+}
+
+// Fonction pour savoir si Intl connaît un fuseau horaire IANA
+function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Fonction pour valider la langue et le fuseau horaire, retourne la liste des problèmes
+export function validateI18nOptions(locale: string, timeZone: string): string[] {
+  const problems: string[] = [];
+  if (!isLocale(locale)) {
+    problems.push(`locale must be one of ${Object.keys(MESSAGES).join(", ")} (got "${locale}")`);
+  }
+  if (!isTimeZone(timeZone)) {
+    problems.push(`timeZone must be an IANA time zone such as "Europe/Paris" or "UTC" (got "${timeZone}")`);
+  }
+  return problems;
+}
+
+/**
+ * Fonction pour résoudre la langue et le fuseau horaire d'un reporter.
+ * Les options explicites sont contrôlées par validateI18nOptions, une valeur inconnue de REPORT_LOCALE
+ * ou REPORT_TIMEZONE est ignorée avec un avertissement au profit de la valeur par défaut.
+ */
+export function resolveI18nOptions(
+  options: { locale?: Locale; timeZone?: string },
+  env: NodeJS.ProcessEnv,
+  reportName: string
+): { locale: Locale; timeZone: string } {
+  let locale = options.locale ?? DEFAULT_LOCALE;
+  if (options.locale === undefined && env.REPORT_LOCALE) {
+    if (isLocale(env.REPORT_LOCALE)) locale = env.REPORT_LOCALE;
+    else console.warn(`⚠️ ${reportName}: unknown REPORT_LOCALE "${env.REPORT_LOCALE}" (expected ${Object.keys(MESSAGES).join(", ")}), using "${DEFAULT_LOCALE}".`);
+  }
+  let timeZone = options.timeZone ?? DEFAULT_TIME_ZONE;
+  if (options.timeZone === undefined && env.REPORT_TIMEZONE) {
+    if (isTimeZone(env.REPORT_TIMEZONE)) timeZone = env.REPORT_TIMEZONE;
+    else console.warn(`⚠️ ${reportName}: unknown REPORT_TIMEZONE "${env.REPORT_TIMEZONE}", using "${DEFAULT_TIME_ZONE}".`);
+  }
+  return { locale, timeZone };
+}
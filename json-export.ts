@@ -0,0 +1,163 @@
+import { FullConfig, FullResult } from "@playwright/test/reporter";
+import fs from "fs";
+import path from "path";
+import { ParsedError, StepRecord, TestOutcome, TestRecord } from "./report-model";
+import { ProjectStats, computeProjectStats } from "./project-summary";
+import { TagValues, collectDimensionValues } from "./tag-schema";
+
+// Version du format JSON, à incrémenter à chaque changement incompatible
+export const RUN_REPORT_SCHEMA_VERSION = 2;
+
+export interface RunReportAttachmentJson {
+  name: string;
+  contentType: string;
+  path?: string;
+}
+
+export interface RunReportAttemptJson {
+  retry: number;
+  status: string;
+  duration: number;
+  startTime: string;
+  /** Message, valeurs attendues / reçues, emplacement, extrait de code, stack et diff de chaque erreur */
+  errors: ParsedError[];
+  attachments: RunReportAttachmentJson[];
+  /** Arbre des étapes (test.step, appels d'API, expect, hooks) */
+  steps: StepRecord[];
+  stdout?: string;
+  stderr?: string;
+}
+
+export interface RunReportTestJson {
+  id: string;
+  title: string;
+  location: string;
+  describeName: string;
+  projectName: string;
+  file: string;
+  describePath: string[];
+  tags: string[];
+  /** Dimensions extraites des tags selon le schéma, et tags libres "@clé:valeur" */
+  dimensions: TagValues;
+  tagIssues: Array<{ dimension: string; kind: string; value?: string }>;
+  status: string;
+  outcome: TestOutcome;
+  duration: number;
+  /** Timeout du test en ms, 0 si désactivé */
+  timeout: number;
+  attempts: RunReportAttemptJson[];
+}
+
+export interface RunReportStatsJson {
+  total: number;
+  passed: number;
+  failed: number;
+  flaky: number;
+  skipped: number;
+  /** Somme des durées de toutes les tentatives, en ms */
+  totalTestDuration: number;
+  /** Valeurs rencontrées pour chaque dimension des tags */
+  dimensions: { [dimension: string]: string[] };
+  /** Compteurs par projet Playwright */
+  byProject: { [projectName: string]: ProjectStats };
+}
+
+// Informations de config utilisées dans les rapports, disponibles aussi après une fusion de shards
+export type RunConfigInfo = Pick<FullConfig, "version" | "workers"> & {
+  shard?: FullConfig["shard"];
+  projects: Array<{ name: string }>;
+};
+
+// Format du fichier JSON écrit à côté du rapport HTML
+export interface RunReportJson {
+  schemaVersion: typeof RUN_REPORT_SCHEMA_VERSION;
+  generator: string;
+  run: {
+    status: FullResult["status"];
+    startTime: string;
+    /** Durée réelle du run, en ms */
+    duration: number;
+    generatedAt: string;
+    playwrightVersion?: string;
+    workers?: number;
+    projects: string[];
+  };
+  stats: RunReportStatsJson;
+  /** Erreurs hors test : global setup, crash de worker, configuration */
+  globalErrors: ParsedError[];
+  tests: RunReportTestJson[];
+}
+
+// Fonction pour calculer les statistiques agrégées du run
+export function computeRunStats(records: TestRecord[]): RunReportStatsJson {
+  return {
+    total: records.length,
+    passed: records.filter((r) => r.outcome === "expected").length,
+    failed: records.filter((r) => r.outcome === "unexpected").length,
+    flaky: records.filter((r) => r.outcome === "flaky").length,
+    skipped: records.filter((r) => r.outcome === "skipped").length,
+    totalTestDuration: records.reduce((sum, r) => sum + r.duration, 0),
+    dimensions: Object.fromEntries(collectDimensionValues(records.map((r) => r.dimensions))),
+    byProject: computeProjectStats(records),
+  };
+}
+
+// Fonction pour construire le modèle JSON du run
+export function buildRunReportJson(
+  generator: string,
+  records: TestRecord[],
+  result: FullResult,
+  config?: RunConfigInfo,
+  globalErrors: ParsedError[] = []
+): RunReportJson {
+  return {
+    schemaVersion: RUN_REPORT_SCHEMA_VERSION,
+    generator,
+    run: {
+      status: result.status,
+      startTime: result.startTime.toISOString(),
+      duration: result.duration,
+      generatedAt: new Date().toISOString(),
+      playwrightVersion: config?.version,
+      workers: config?.workers,
+      projects: config ? config.projects.map((project) => project.name) : [],
+    },
+    stats: computeRunStats(records),
+    globalErrors,
+    tests: records.map((record) => ({
+      id: record.id,
+      title: record.title,
+      location: record.location,
+      describeName: record.describeName,
+      projectName: record.projectName,
+      file: record.file,
+      describePath: record.describePath,
+      tags: record.tags,
+      dimensions: record.dimensions,
+      tagIssues: record.tagIssues.map(({ dimension, kind, value }) => ({ dimension, kind, value })),
+      status: record.status,
+      outcome: record.outcome,
+      duration: record.duration,
+      timeout: record.timeout,
+      attempts: record.attempts.map((attempt) => ({
+        retry: attempt.retry,
+        status: attempt.status,
+        duration: attempt.duration,
+        startTime: attempt.startTime,
+        errors: attempt.errors,
+        // Les contenus en mémoire (body) ne sont pas exportés, seulement leur référence
+        attachments: attempt.attachments.map(({ name, contentType, path }) => ({ name, contentType, path })),
+        steps: attempt.steps || [],
+        stdout: attempt.stdout,
+        stderr: attempt.stderr,
+      })),
+    })),
+  };
+}
+
+// Fonction pour écrire le JSON à côté du rapport HTML
+export function writeRunReportJson(filePath: string, report: RunReportJson): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(report, null, 2), "utf-8");
+  console.log(`✅ JSON report generated: ${filePath}`);
+}
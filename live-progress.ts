@@ -0,0 +1,272 @@
+import fs from "fs";
+import path from "path";
+import { StatusBadgeLabels, TestRecord, failureDetails, statusBadge } from "./report-model";
+import { testStatusClass } from "./report-filters";
+import { escapeHtml } from "./html-escape";
+import { SANS_FONT_STACK, warnIfNotSelfContained } from "./report-assets";
+import type { I18n } from "./i18n";
+
+export interface LiveProgressOptions {
+  outputDir: string;
+  /** Préfixe des fichiers : <reportName>.live.html et <reportName>.partial.json */
+  reportName: string;
+  title: string;
+  /** Rapport final, lié depuis la page live une fois le run terminé */
+  reportFileName: string;
+  /** Intervalle minimum entre deux écritures, en ms */
+  throttleMs?: number;
+  /** Intervalle de rafraîchissement de la page live, en secondes */
+  refreshSeconds?: number;
+  /** Langue et fuseau horaire de la page live */
+  i18n: I18n;
+}
+
+// Libellés de la page live, dans la langue du rapport
+export interface LiveProgressLabels {
+  running: string;
+  finished: string;
+  interrupted: string;
+  openFinalReport: string;
+  progress: (startedAt: string, elapsed: string, updatedAt: string) => string;
+  passed: string;
+  failed: string;
+  flaky: string;
+  skipped: string;
+  failedSoFar: (count: number) => string;
+  allCompleted: (count: number) => string;
+  completedLatestFirst: (count: number) => string;
+  status: string;
+  statusBadges: StatusBadgeLabels;
+  test: string;
+  group: string;
+  error: string;
+  duration: string;
+}
+
+type LiveState = "running" | "finished" | "interrupted";
+
+// Signaux d'arrêt interceptés pour écrire le rapport partiel avant la fin du process
+const INTERRUPT_SIGNALS: NodeJS.Signals[] = ["SIGINT", "SIGTERM", "SIGHUP"];
+
+// Instantané des résultats écrit pendant le run
+export interface PartialRunSnapshot {
+  generator: string;
+  state: LiveState;
+  startedAt: string;
+  updatedAt: string;
+  totalTests: number;
+  completedTests: number;
+  /** Résultats collectés jusqu'ici, sans le contenu en mémoire des pièces jointes */
+  tests: TestRecord[];
+}
+
+// Fonction pour écrire un fichier sans jamais laisser de version tronquée (écriture puis renommage)
+function writeFileAtomic(filePath: string, content: string): void {
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpPath, content, "utf-8");
+  fs.renameSync(tmpPath, filePath);
+}
+
+function formatElapsed(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, "0")}s`;
+}
+
+/**
+ * Sauvegarde progressive des résultats pendant le run :
+ * un instantané JSON et une page HTML qui se rafraîchit, mis à jour à chaque fin de test.
+ * Si le process s'arrête sans passer par onEnd (sortie, SIGINT, SIGTERM, SIGHUP), la page devient un rapport partiel ;
+ * après un SIGKILL, la dernière page écrite liste déjà tous les tests terminés.
+ */
+export class LiveProgress {
+  private startedAt = new Date();
+  private totalTests = 0;
+  private getRecords: () => TestRecord[] = () => [];
+  private lastWrite = 0;
+  private pendingWrite: NodeJS.Timeout | undefined;
+  private state: LiveState = "running";
+  private reportGenerated = false;
+  private readonly onExit = () => {
+    // Seules les opérations synchrones sont possibles dans un handler "exit"
+    if (this.state === "running") this.write("interrupted");
+  };
+  private readonly onSignal = (signal: NodeJS.Signals) => {
+    if (this.state === "running") this.write("interrupted");
+    this.removeProcessListeners();
+    // Sans autre handler (ex: celui de Playwright pour SIGINT), on rétablit le comportement par défaut : le process s'arrête
+    if (process.listenerCount(signal) === 0) process.kill(process.pid, signal);
+  };
+
+  constructor(private options: LiveProgressOptions) {}
+
+  get htmlPath(): string {
+    return path.join(this.options.outputDir, `${this.options.reportName}.live.html`);
+  }
+
+  get snapshotPath(): string {
+    return path.join(this.options.outputDir, `${this.options.reportName}.partial.json`);
+  }
+
+  // Fonction appelée dans onBegin
+  begin(totalTests: number, getRecords: () => TestRecord[]): void {
+    this.startedAt = new Date();
+    this.totalTests = totalTests;
+    this.getRecords = getRecords;
+    process.once("exit", this.onExit);
+    for (const signal of INTERRUPT_SIGNALS) process.once(signal, this.onSignal);
+    this.write("running");
+    console.log(`📡 Live progress: ${this.htmlPath}`);
+  }
+
+  // Fonction appelée dans onTestEnd, les écritures rapprochées sont regroupées
+  update(): void {
+    if (this.state !== "running") return;
+    const wait = (this.options.throttleMs ?? 2000) - (Date.now() - this.lastWrite);
+    if (wait <= 0) {
+      this.write("running");
+    } else if (!this.pendingWrite) {
+      this.pendingWrite = setTimeout(() => {
+        this.pendingWrite = undefined;
+        if (this.state === "running") this.write("running");
+      }, wait);
+      // Le timer ne doit pas retenir le process à la fin du run
+      this.pendingWrite.unref();
+    }
+  }
+
+  // Fonction appelée à la fin de onEnd : la page renvoie vers le rapport final (sauf en mode shard), l'instantané est supprimé
+  finish(reportGenerated = true): void {
+    if (this.pendingWrite) clearTimeout(this.pendingWrite);
+    this.removeProcessListeners();
+    this.reportGenerated = reportGenerated;
+    this.write("finished");
+    fs.rmSync(this.snapshotPath, { force: true });
+  }
+
+  private removeProcessListeners(): void {
+    process.removeListener("exit", this.onExit);
+    for (const signal of INTERRUPT_SIGNALS) process.removeListener(signal, this.onSignal);
+  }
+
+  private write(state: LiveState): void {
+    this.state = state;
+    this.lastWrite = Date.now();
+    try {
+      fs.mkdirSync(this.options.outputDir, { recursive: true });
+      const records = this.getRecords();
+      if (state !== "finished") {
+        writeFileAtomic(this.snapshotPath, JSON.stringify(this.snapshot(state, records)));
+      }
+      const html = this.renderHtml(state, records);
+      warnIfNotSelfContained(html, this.htmlPath);
+      writeFileAtomic(this.htmlPath, html);
+      if (state === "interrupted") {
+        console.warn(`⚠️ Run ended before the report was generated, partial report: ${this.htmlPath}`);
+      }
+    } catch (error) {
+      console.warn("⚠️ Unable to write live progress:", error.message);
+    }
+  }
+
+  private snapshot(state: LiveState, records: TestRecord[]): PartialRunSnapshot {
+    return {
+      generator: this.options.reportName,
+      state,
+      startedAt: this.startedAt.toISOString(),
+      updatedAt: new Date().toISOString(),
+      totalTests: this.totalTests,
+      completedTests: records.length,
+      tests: records.map((record) => ({
+        ...record,
+        attempts: record.attempts.map((attempt) => ({
+          ...attempt,
+          attachments: attempt.attachments.map(({ name, contentType, path }) => ({ name, contentType, path })),
+        })),
+      })),
+    };
+  }
+
+  private renderHtml(state: LiveState, records: TestRecord[]): string {
+    const counts = { passed: 0, failed: 0, flaky: 0, skipped: 0 };
+    records.forEach((record) => counts[testStatusClass(record.outcome)]++);
+    const completed = records.length;
+    const percent = this.totalTests > 0 ? Math.min(100, Math.round((completed / this.totalTests) * 100)) : 0;
+    const failed = records.filter((record) => record.outcome === "unexpected");
+    // Chaque écriture liste tous les tests terminés : si le process est tué (SIGKILL), la dernière page reste un rapport partiel complet
+    const listed = state === "interrupted" ? records : records.slice().reverse();
+    const { i18n } = this.options;
+    const labels = i18n.messages.live;
+    const stateLabel = {
+      running: `⏳ ${labels.running}`,
+      finished: `✅ ${labels.finished}`,
+      interrupted: `⚠️ ${labels.interrupted}`,
+    }[state];
+
+    return `<!DOCTYPE html>
+<html lang="${i18n.locale}">
+<head>
+  <meta charset="UTF-8" />
+  ${state === "running" ? `<meta http-equiv="refresh" content="${this.options.refreshSeconds ?? 5}" />` : ""}
+  <title>${escapeHtml(this.options.title)} — ${escapeHtml(stateLabel)}</title>
+  <style>
+    body { font-family: ${SANS_FONT_STACK}; background: #f6f8fa; color: #333; padding: 20px; max-width: 1000px; margin: 0 auto; }
+    h1 { color: #0e4ba1; margin-bottom: 4px; }
+    .state { font-weight: bold; margin-bottom: 16px; }
+    .state.interrupted { color: #d63031; }
+    .progress { background: #e0e0e0; border-radius: 8px; height: 22px; overflow: hidden; margin: 10px 0; }
+    .progress-bar { background: #27ae60; height: 100%; color: #fff; font-size: 13px; line-height: 22px; text-align: center; }
+    .counts span { margin-right: 16px; font-weight: bold; }
+    .passed { color: #27ae60; } .failed { color: #d63031; } .flaky { color: #e67e22; } .skipped { color: #f39c12; }
+    table { width: 100%; border-collapse: collapse; background: #fff; margin-top: 12px; font-size: 13px; }
+    th, td { border: 1px solid #e0e0e0; padding: 6px 8px; text-align: left; vertical-align: top; }
+    th { background: #0e4ba1; color: #fff; }
+    h2 { color: #0e4ba1; font-size: 1.1em; margin-top: 24px; }
+    .error { color: #b71c1c; white-space: pre-wrap; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(this.options.title)}</h1>
+  <div class="state ${state}">${escapeHtml(stateLabel)}
+    ${state === "finished" && this.reportGenerated ? ` — <a href="${escapeHtml(this.options.reportFileName)}">${escapeHtml(labels.openFinalReport)}</a>` : ""}
+  </div>
+  <div>${escapeHtml(labels.progress(
+    i18n.formatDate(this.startedAt),
+    formatElapsed(Date.now() - this.startedAt.getTime()),
+    i18n.formatTime(new Date())
+  ))}</div>
+  <div class="progress"><div class="progress-bar" style="width:${percent}%;">${completed} / ${this.totalTests} (${percent}%)</div></div>
+  <div class="counts">
+    <span class="passed">✅ ${counts.passed} ${escapeHtml(labels.passed)}</span>
+    <span class="failed">❌ ${counts.failed} ${escapeHtml(labels.failed)}</span>
+    <span class="flaky">🔁 ${counts.flaky} ${escapeHtml(labels.flaky)}</span>
+    <span class="skipped">⏭️ ${counts.skipped} ${escapeHtml(labels.skipped)}</span>
+  </div>
+  ${failed.length ? `
+  <h2>❌ ${escapeHtml(labels.failedSoFar(failed.length))}</h2>
+  <table>
+    <tr><th>${escapeHtml(labels.test)}</th><th>${escapeHtml(labels.group)}</th><th>${escapeHtml(labels.error)}</th></tr>
+    ${failed.map((record) => `
+    <tr>
+      <td>${escapeHtml(record.title)}<br><small>📁 ${escapeHtml(record.location)}</small></td>
+      <td>${escapeHtml(record.describeName)}</td>
+      <td class="error">${escapeHtml((failureDetails(record)?.rawError || record.status).split("\n")[0])}</td>
+    </tr>`).join("")}
+  </table>` : ""}
+  <h2>${escapeHtml(state === "interrupted" ? labels.allCompleted(completed) : labels.completedLatestFirst(completed))}</h2>
+  <table>
+    <tr><th>${escapeHtml(labels.status)}</th><th>${escapeHtml(labels.test)}</th><th>${escapeHtml(labels.group)}</th><th>${escapeHtml(labels.duration)}</th></tr>
+    ${listed.map((record) => {
+      const status = testStatusClass(record.outcome);
+      return `
+    <tr>
+      <td class="${status}">${escapeHtml(statusBadge(record, labels.statusBadges))}</td>
+      <td>${escapeHtml(record.title)}</td>
+      <td>${escapeHtml(record.describeName)}</td>
+      <td>${i18n.formatNumber(record.duration)} ms</td>
+    </tr>`;
+    }).join("")}
+  </table>
+</body>
+</html>`;
+  }
+}
@@ -0,0 +1,46 @@
+import path from "path";
+import dotenv from "dotenv";
+import FailedReport, { FailedReportOptions } from "./failed-report";
+import FullTestReport, { FullTestReportOptions } from "./full-test-report";
+import { mergeShardBlobs, readShardBlobs } from "./shard-blob";
+dotenv.config();
+
+export interface MergeReportsOptions {
+  /** Dossier contenant les blobs de tous les shards (env: REPORT_BLOB_DIR, défaut: <REPORT_OUTPUT_DIR>/blob) */
+  blobDir?: string;
+  /** Options du failed-report, comme dans playwright.config.ts (shardMode est ignoré) */
+  failedReport?: FailedReportOptions;
+  /** Options du full-test-report, comme dans playwright.config.ts (shardMode est ignoré) */
+  fullTestReport?: FullTestReportOptions;
+}
+
+/**
+ * Fonction pour fusionner les blobs écrits par les shards (shardMode) puis générer
+ * un seul full-test-report, un seul failed-report et un seul envoi de notifications.
+ */
+export async function mergeShardReports(options: MergeReportsOptions = {}): Promise<void> {
+  const blobDir = options.blobDir ?? process.env.REPORT_BLOB_DIR ?? path.join(process.env.REPORT_OUTPUT_DIR ?? "costum-report", "blob");
+
+  // Le full-test-report d'abord, pour qu'il soit à jour quand les notifications renvoient vers les rapports
+  const fullBlobs = readShardBlobs(blobDir, "full-test-report");
+  if (fullBlobs.length) {
+    await new FullTestReport({ ...options.fullTestReport, shardMode: false }).onMergedEnd(mergeShardBlobs(fullBlobs));
+  } else {
+    console.warn(`⚠️ No full-test-report shard blob found in ${blobDir}.`);
+  }
+
+  const failedBlobs = readShardBlobs(blobDir, "failed-report");
+  if (failedBlobs.length) {
+    await new FailedReport({ ...options.failedReport, shardMode: false }).onMergedEnd(mergeShardBlobs(failedBlobs));
+  } else {
+    console.warn(`⚠️ No failed-report shard blob found in ${blobDir}.`);
+  }
+}
+
+// Utilisation en ligne de commande, une fois tous les shards terminés : npm run merge-reports -- [blobDir]
+if (require.main === module) {
+  mergeShardReports({ blobDir: process.argv[2] }).catch((error) => {
+    console.error("❌ Unable to merge shard reports:", error.message);
+    process.exit(1);
+  });
+}
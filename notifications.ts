@@ -0,0 +1,283 @@
+import { FullResult } from "@playwright/test/reporter";
+import {
+  ParsedError,
+  TestRecord,
+  failingStepTitle,
+  failureDetails,
+  groupByDescribe,
+  lastFailedAttempt,
+} from "./report-model";
+import { CopiedAttachment, copyAttachments } from "./report-attachments";
+import { FailureTrend } from "./run-history";
+import { TagSchema, dimensionKeys, dimensionLabel } from "./tag-schema";
+import { RunReportStatsJson, computeRunStats } from "./json-export";
+import { FailureCluster, clusterFailures } from "./failure-clusters";
+import { ReportBundle } from "./zip-bundle";
+import { I18n, createI18n } from "./i18n";
+
+// Test en échec tel que présenté dans les rapports et les notifications
+export type FailedTestSummary = TestRecord & ParsedError & {
+  attachments: CopiedAttachment[];
+  trend?: FailureTrend;
+  /** Titre de l'étape en échec, ex: "Create order › Check status" */
+  failedStep?: string;
+  /** Équipes propriétaires du test, voir owner-routing.ts */
+  owners?: string[];
+};
+
+// Modèle du run transmis à chaque canal de notification
+export interface RunSummary {
+  title: string;
+  generatedAt: Date;
+  status: FullResult["status"];
+  /** Somme des durées des tests en échec, en ms */
+  totalDuration: number;
+  /** Durée réelle du run (horloge murale), en ms */
+  runDuration?: number;
+  workers?: number;
+  /** Tests en échec regroupés par describe */
+  failedTests: Map<string, FailedTestSummary[]>;
+  totalFailed: number;
+  flakyTests: TestRecord[];
+  fixedTests: TestRecord[];
+  newFailures: number;
+  /** Échecs regroupés par signature d'erreur normalisée, du plus fréquent au moins fréquent */
+  failureClusters: FailureCluster<FailedTestSummary>[];
+  /** Erreurs hors test : échec du global setup, crash de worker, erreur de configuration */
+  globalErrors: ParsedError[];
+  stats: RunReportStatsJson;
+  tagSchema: TagSchema;
+  /** Dimensions affichées pour chaque describe (obligatoires ou renseignées), ordonnées selon le schéma */
+  dimensionKeysByDescribe: { [describeName: string]: string[] };
+  /** Rapport HTML généré pour ce run, s'il existe */
+  reportPath?: string;
+  /** URL publique du rapport HTML, utilisée pour les liens dans les messages */
+  reportUrl?: string;
+  /** Rapport à joindre aux emails, préparé par le reporter après la génération du HTML */
+  reportBundle?: ReportBundle;
+  /** Langue, fuseau horaire et textes des notifications */
+  i18n: I18n;
+}
+
+export interface RetryPolicy {
+  /** Nombre total d'essais, 1 = pas de réessai */
+  attempts: number;
+  /** Délai entre deux essais, en ms */
+  delayMs: number;
+}
+
+// Canal de notification : email, Teams, webhook ou canal personnalisé
+export interface NotificationChannel {
+  name: string;
+  /** false pour désactiver le canal sans le retirer de la configuration */
+  enabled?: boolean;
+  retry?: RetryPolicy;
+  /** Lève une erreur en cas d'échec, peut retourner un détail affiché dans les logs */
+  send(summary: RunSummary): Promise<string | void>;
+}
+
+export interface NotificationResult {
+  channel: string;
+  status: "sent" | "failed" | "skipped";
+  attempts: number;
+  message?: string;
+}
+
+const DEFAULT_RETRY: RetryPolicy = { attempts: 1, delayMs: 1000 };
+
+// Fonction pour construire le modèle de run partagé par les rapports et les notifications
+export function buildRunSummary(
+  records: TestRecord[],
+  context: {
+    title: string;
+    status: FullResult["status"];
+    tagSchema: TagSchema;
+    trends?: Map<string, FailureTrend>;
+    fixedTests?: TestRecord[];
+    /** Dossier où copier les pièces jointes des tests en échec */
+    attachmentsDir?: string;
+    globalErrors?: ParsedError[];
+    runDuration?: number;
+    workers?: number;
+    reportPath?: string;
+    reportUrl?: string;
+    /** Défaut: anglais, fuseau Europe/Paris */
+    i18n?: I18n;
+  }
+): RunSummary {
+  const trends = context.trends || new Map<string, FailureTrend>();
+  const i18n = context.i18n || createI18n("en");
+
+  // Seuls les tests "unexpected" sont des échecs, les tests "flaky" ont réussi après un retry
+  const failedTests = groupByDescribe<FailedTestSummary>(
+    records
+      .filter((record) => record.outcome === "unexpected")
+      .map((record) => {
+        const attempt = lastFailedAttempt(record) || record.attempts[record.attempts.length - 1];
+        return {
+          ...record,
+          ...(failureDetails(record) || {
+            rawError: i18n.messages.common.endedWithStatus(record.status),
+            expected: [],
+            actual: [],
+          }),
+          attachments: context.attachmentsDir
+            ? copyAttachments(attempt.attachments, context.attachmentsDir, record.id, attempt.retry)
+            : [],
+          trend: trends.get(record.id),
+          failedStep: failingStepTitle(attempt),
+        };
+      })
+  );
+
+  // Colonnes de dimensions de chaque describe, selon le schéma
+  const dimensionKeysByDescribe: { [describeName: string]: string[] } = {};
+  for (const [describeName, tests] of failedTests) {
+    dimensionKeysByDescribe[describeName] = dimensionKeys(context.tagSchema, tests.map((test) => test.dimensions));
+  }
+
+  const allFailed = Array.from(failedTests.values()).flat();
+
+  return {
+    title: context.title,
+    generatedAt: new Date(),
+    status: context.status,
+    totalDuration: allFailed.reduce((sum, test) => sum + test.duration, 0),
+    runDuration: context.runDuration,
+    workers: context.workers,
+    failedTests,
+    totalFailed: allFailed.length,
+    flakyTests: records.filter((record) => record.outcome === "flaky"),
+    fixedTests: context.fixedTests || [],
+    newFailures: Array.from(trends.values()).filter((trend) => trend.kind === "new").length,
+    failureClusters: clusterFailures(allFailed, context.tagSchema),
+    globalErrors: context.globalErrors || [],
+    stats: computeRunStats(records),
+    tagSchema: context.tagSchema,
+    dimensionKeysByDescribe,
+    reportPath: context.reportPath,
+    reportUrl: context.reportUrl,
+    i18n,
+  };
+}
+
+// Fonction pour ne garder qu'une partie des échecs du résumé, les compteurs et regroupements sont recalculés
+export function restrictFailures(summary: RunSummary, keep: (test: FailedTestSummary) => boolean): RunSummary {
+  const failedTests = new Map<string, FailedTestSummary[]>();
+  for (const [describeName, tests] of summary.failedTests) {
+    const kept = tests.filter(keep);
+    if (kept.length) failedTests.set(describeName, kept);
+  }
+
+  const allFailed = Array.from(failedTests.values()).flat();
+  return {
+    ...summary,
+    failedTests,
+    totalFailed: allFailed.length,
+    totalDuration: allFailed.reduce((sum, test) => sum + test.duration, 0),
+    newFailures: allFailed.filter((test) => test.trend?.kind === "new").length,
+    failureClusters: clusterFailures(allFailed, summary.tagSchema),
+  };
+}
+
+// Fonction pour récupérer le libellé d'une dimension depuis le résumé
+export function summaryLabel(summary: RunSummary, key: string): string {
+  return dimensionLabel(summary.tagSchema, key);
+}
+
+// Fonction pour savoir si le run a échoué : tests en échec ou erreurs globales
+export function hasFailures(summary: RunSummary): boolean {
+  return summary.totalFailed > 0 || summary.globalErrors.length > 0;
+}
+
+// Fonction pour le titre des messages : échecs, ou résumé "all passed" d'un run vert
+export function summaryHeadline(summary: RunSummary): string {
+  const { run } = summary.i18n.messages;
+  if (summary.totalFailed > 0) return `❌ ${summary.title}`;
+  if (summary.globalErrors.length > 0) return `❌ ${run.headlineGlobalErrors(summary.title, summary.globalErrors.length)}`;
+  return `✅ ${run.headlineAllPassed(summary.title, summary.stats.passed + summary.flakyTests.length, summary.flakyTests.length)}`;
+}
+
+// Fonction pour décrire la durée du run, ex: "4m 05s (4 workers), failed tests: 12.3 s"
+export function describeRunTiming(summary: RunSummary): string {
+  const { i18n } = summary;
+  const failed = i18n.messages.run.failedTestsDuration(i18n.formatDuration(summary.totalDuration));
+  if (summary.runDuration === undefined) return failed;
+  const workers = summary.workers ? ` (${i18n.messages.run.workers(summary.workers)})` : "";
+  return `${i18n.formatDuration(summary.runDuration)}${workers}, ${failed}`;
+}
+
+// Regroupement des échecs par describe, partagé par les cartes Teams, Slack et les webhooks
+export interface FailureGroup {
+  describeName: string;
+  tests: FailedTestSummary[];
+  /** "N failed test(s)" */
+  countLabel: string;
+}
+
+// Fonction pour lister les groupes d'échecs par describe dans l'ordre du run
+export function failureGroups(summary: RunSummary): FailureGroup[] {
+  return Array.from(summary.failedTests.entries()).map(([describeName, tests]) => ({
+    describeName,
+    tests,
+    countLabel: summary.i18n.messages.common.failedTests(tests.length),
+  }));
+}
+
+// Fonction pour extraire les informations utiles d'une erreur HTTP / SMTP
+export function describeError(error: unknown): string {
+  if (!(error instanceof Error)) return String(error);
+
+  const code = "code" in error ? error.code : undefined;
+  let response: unknown;
+  if ("response" in error && error.response && typeof error.response === "object") {
+    response = "data" in error.response && error.response.data !== undefined ? error.response.data : error.response;
+  }
+  return [error.message, code ? String(code) : "", response ? JSON.stringify(response) : ""].filter(Boolean).join(" | ");
+}
+
+// Fonction pour envoyer sur un canal avec sa politique de réessai
+async function sendWithRetry(channel: NotificationChannel, summary: RunSummary): Promise<NotificationResult> {
+  const retry = channel.retry || DEFAULT_RETRY;
+  let lastError = "";
+
+  for (let attempt = 1; attempt <= retry.attempts; attempt++) {
+    try {
+      const message = await channel.send(summary);
+      return { channel: channel.name, status: "sent", attempts: attempt, message: message || undefined };
+    } catch (error) {
+      lastError = describeError(error);
+      console.error(`❌ [${channel.name}] attempt ${attempt}/${retry.attempts} failed: ${lastError}`);
+      if (attempt < retry.attempts) await new Promise((resolve) => setTimeout(resolve, retry.delayMs));
+    }
+  }
+
+  return { channel: channel.name, status: "failed", attempts: retry.attempts, message: lastError };
+}
+
+// Fonction pour envoyer le résumé sur tous les canaux, un canal en erreur n'empêche pas les autres
+export async function dispatchNotifications(
+  channels: NotificationChannel[],
+  summary: RunSummary
+): Promise<NotificationResult[]> {
+  const results = await Promise.all(
+    channels.map(async (channel): Promise<NotificationResult> => {
+      if (channel.enabled === false) {
+        return { channel: channel.name, status: "skipped", attempts: 0 };
+      }
+      try {
+        return await sendWithRetry(channel, summary);
+      } catch (error) {
+        return { channel: channel.name, status: "failed", attempts: 0, message: describeError(error) };
+      }
+    })
+  );
+
+  for (const result of results) {
+    if (result.status === "sent") console.log(`📢 [${result.channel}] notification sent.${result.message ? ` ${result.message}` : ""}`);
+    else if (result.status === "skipped") console.log(`⏭️ [${result.channel}] notification channel disabled.`);
+    else console.error(`❌ [${result.channel}] all notification attempts failed.`);
+  }
+
+  return results;
+}
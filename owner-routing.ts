@@ -0,0 +1,124 @@
+import fs from "fs";
+import { FailedTestSummary, NotificationChannel, RunSummary, restrictFailures } from "./notifications";
+import { TestRecord } from "./report-model";
+import { normalizeTag } from "./alert-policy";
+
+// Équipe propriétaire d'une partie des tests, qui reçoit ses propres notifications
+export interface OwnerRule {
+  /** Nom de l'équipe, un test tagué "@owner:<name>" lui est toujours attribué */
+  name: string;
+  /** Tags qui attribuent un test à l'équipe, avec ou sans "@" (ex: "@realm:EU", "@payment_method:card") */
+  tags?: string[];
+  /** Motifs glob sur le fichier du test, relatif au testDir (ex: "payments/**", "checkout/*.spec.ts") */
+  files?: string[];
+  /** Destinataires de l'email de l'équipe */
+  emails?: string[];
+  /** Webhook Teams de l'équipe */
+  teamsWebhookUrl?: string;
+}
+
+// Notification d'une équipe : ses échecs uniquement et ses canaux
+export interface OwnerNotification {
+  owner: OwnerRule;
+  summary: RunSummary;
+  channels: NotificationChannel[];
+}
+
+// Fonction pour convertir un motif glob (*, **, ?) en expression régulière sur un chemin "/"
+function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*") {
+      // "**/" couvre aussi zéro dossier
+      source += pattern[i + 2] === "/" ? "(?:.*/)?" : ".*";
+      i += pattern[i + 2] === "/" ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+// Fonction pour savoir si un test appartient à une équipe (tag @owner:, tags ou fichiers)
+export function isOwnedBy(test: TestRecord, owner: OwnerRule): boolean {
+  const tags = test.tags.map(normalizeTag);
+  if (tags.includes(normalizeTag(`owner:${owner.name}`))) return true;
+  if ((owner.tags || []).some((tag) => tags.includes(normalizeTag(tag)))) return true;
+  const file = test.file.replace(/\\/g, "/");
+  return (owner.files || []).some((pattern) => globToRegExp(pattern).test(file));
+}
+
+// Fonction pour lister les équipes d'un test, dans l'ordre de la configuration
+export function ownersOf(test: TestRecord, owners: OwnerRule[]): string[] {
+  return owners.filter((owner) => isOwnedBy(test, owner)).map((owner) => owner.name);
+}
+
+/**
+ * Fonction pour préparer les notifications de chaque équipe à partir du résumé déjà filtré par la politique d'alerte.
+ * Une équipe sans échec ne reçoit rien ; un test peut appartenir à plusieurs équipes.
+ */
+export function routeToOwners(
+  summary: RunSummary,
+  owners: OwnerRule[],
+  createChannels: (owner: OwnerRule) => NotificationChannel[]
+): OwnerNotification[] {
+  return owners.flatMap((owner) => {
+    const owned = (test: TestRecord) => isOwnedBy(test, owner);
+    const ownerSummary: RunSummary = {
+      ...restrictFailures(summary, (test: FailedTestSummary) => owned(test)),
+      title: `${summary.title} — ${owner.name}`,
+      flakyTests: summary.flakyTests.filter(owned),
+      fixedTests: summary.fixedTests.filter(owned),
+      // Les erreurs globales ne concernent aucune équipe en particulier, elles restent dans le digest
+      globalErrors: [],
+      // Le rapport complet liste les échecs de toutes les équipes : il n'est pas joint, l'email renvoie vers lui
+      reportBundle: { size: 0, files: [], omitted: summary.i18n.messages.bundle.otherTeams },
+    };
+    if (ownerSummary.totalFailed === 0) return [];
+    return [{ owner, summary: ownerSummary, channels: createChannels(owner) }];
+  });
+}
+
+// Fonction pour charger la liste des équipes depuis un fichier JSON (env: REPORT_OWNERS_FILE)
+export function loadOwnersFile(filePath: string): OwnerRule[] {
+  try {
+    const owners = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    if (!Array.isArray(owners)) throw new Error("expected a JSON array of owners");
+    return owners;
+  } catch (error) {
+    console.warn(`⚠️ Unable to read owners file ${filePath}:`, error.message);
+    return [];
+  }
+}
+
+// Fonction pour valider la liste des équipes, retourne la liste des problèmes
+export function validateOwners(owners: OwnerRule[], prefix = "owners"): string[] {
+  const problems: string[] = [];
+  const emailPattern = /^[^\s@]+@[^\s@]+$/;
+  const names = new Set<string>();
+
+  owners.forEach((owner, index) => {
+    const label = `${prefix}[${index}]${owner?.name ? ` (${owner.name})` : ""}`;
+    if (!owner?.name) {
+      problems.push(`${label}.name must not be empty`);
+      return;
+    }
+    if (names.has(owner.name)) problems.push(`${label}: duplicate owner name`);
+    names.add(owner.name);
+    if (!owner.emails?.length && !owner.teamsWebhookUrl) {
+      problems.push(`${label} must define emails or teamsWebhookUrl`);
+    }
+    for (const address of owner.emails || []) {
+      if (!emailPattern.test(address)) problems.push(`${label}: invalid email address "${address}"`);
+    }
+    if (owner.teamsWebhookUrl && !/^https?:\/\//.test(owner.teamsWebhookUrl)) {
+      problems.push(`${label}.teamsWebhookUrl must be an http(s) URL (got "${owner.teamsWebhookUrl}")`);
+    }
+  });
+  return problems;
+}
@@ -0,0 +1,94 @@
+import { TestRecord } from "./report-model";
+import { escapeHtml } from "./html-escape";
+
+// Compteurs d'un projet Playwright
+export interface ProjectStats {
+  total: number;
+  passed: number;
+  failed: number;
+  flaky: number;
+  skipped: number;
+  duration: number;
+}
+
+// Fonction pour calculer les compteurs par projet, dans l'ordre d'apparition
+export function computeProjectStats(records: TestRecord[]): { [projectName: string]: ProjectStats } {
+  const projects: { [projectName: string]: ProjectStats } = {};
+  for (const record of records) {
+    const stats = projects[record.projectName] || { total: 0, passed: 0, failed: 0, flaky: 0, skipped: 0, duration: 0 };
+    stats.total++;
+    if (record.outcome === "expected") stats.passed++;
+    else if (record.outcome === "unexpected") stats.failed++;
+    else if (record.outcome === "flaky") stats.flaky++;
+    else if (record.outcome === "skipped") stats.skipped++;
+    stats.duration += record.duration;
+    projects[record.projectName] = stats;
+  }
+  return projects;
+}
+
+// Libellés du tableau par projet, dans la langue du rapport
+export interface ProjectSummaryLabels {
+  title: string;
+  project: string;
+  /** Nom affiché pour le projet par défaut, sans nom */
+  unnamed: string;
+  total: string;
+  passed: string;
+  failed: string;
+  flaky: string;
+  skipped: string;
+  duration: string;
+}
+
+// Fonction pour générer le tableau récapitulatif par projet, masqué s'il n'y a qu'un projet sans nom
+export function renderProjectSummaryHtml(
+  projects: { [projectName: string]: ProjectStats },
+  labels: ProjectSummaryLabels,
+  locale: string
+): string {
+  const names = Object.keys(projects);
+  if (names.length === 0 || (names.length === 1 && !names[0])) return "";
+
+  return `
+    <div class="project-summary">
+      <h3>${escapeHtml(labels.title)}</h3>
+      <table>
+        <tr>
+          <th>${escapeHtml(labels.project)}</th>
+          <th>${escapeHtml(labels.total)}</th>
+          <th>${escapeHtml(labels.passed)}</th>
+          <th>${escapeHtml(labels.failed)}</th>
+          <th>${escapeHtml(labels.flaky)}</th>
+          <th>${escapeHtml(labels.skipped)}</th>
+          <th>${escapeHtml(labels.duration)}</th>
+        </tr>
+        ${names
+          .map((name) => {
+            const stats = projects[name];
+            return `
+        <tr class="${stats.failed > 0 ? "ko" : "ok"}">
+          <td>${escapeHtml(name || labels.unnamed)}</td>
+          <td>${stats.total}</td>
+          <td>${stats.passed}</td>
+          <td>${stats.failed}</td>
+          <td>${stats.flaky}</td>
+          <td>${stats.skipped}</td>
+          <td>${stats.duration.toLocaleString(locale)} ms</td>
+        </tr>`;
+          })
+          .join("")}
+      </table>
+    </div>`;
+}
+
+// Styles du tableau par projet
+export const projectSummaryStyles = `
+  .project-summary { margin: 14px 0; }
+  .project-summary h3 { color: #0e4ba1; margin: 0 0 6px 0; font-size: 1em; }
+  .project-summary table { border-collapse: collapse; width: 100%; font-size: 13px; background: #fff; }
+  .project-summary th, .project-summary td { border: 1px solid #e0e0e0; padding: 6px 10px; text-align: left; }
+  .project-summary th { background: #0e4ba1; color: #fff; }
+  .project-summary tr.ok td:first-child { border-left: 4px solid #27ae60; }
+  .project-summary tr.ko td:first-child { border-left: 4px solid #d63031; }
+`;
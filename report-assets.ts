@@ -0,0 +1,115 @@
+import { escapeHtml } from "./html-escape";
+
+// Polices système uniquement : aucun téléchargement nécessaire pour afficher le rapport
+export const SANS_FONT_STACK = "-apple-system, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif";
+export const MONO_FONT_STACK = "ui-monospace, 'Cascadia Mono', 'Fira Mono', Consolas, 'Courier New', monospace";
+
+// Icône d'erreur inline (remplace l'image flaticon du header)
+export const ERROR_ICON_SVG = `
+  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 48 48" width="48" height="48" role="img" aria-label="Error Icon">
+    <circle cx="24" cy="24" r="22" fill="#d63031" stroke="#fff" stroke-width="2"/>
+    <path d="M16 16 L32 32 M32 16 L16 32" stroke="#fff" stroke-width="5" stroke-linecap="round"/>
+  </svg>
+`;
+
+export interface ChartSegment {
+  label: string;
+  value: number;
+  color: string;
+}
+
+// Fonction pour générer un graphique en anneau en SVG au moment de la génération du rapport
+export function renderDoughnutSvg(segments: ChartSegment[], size = 220): string {
+  const total = segments.reduce((sum, segment) => sum + segment.value, 0);
+  const radius = size / 2 - 30;
+  const strokeWidth = 36;
+  const circumference = 2 * Math.PI * radius;
+  const center = size / 2;
+
+  let offset = 0;
+  const arcs = total === 0
+    ? `<circle cx="${center}" cy="${center}" r="${radius}" fill="none" stroke="#ddd" stroke-width="${strokeWidth}"/>`
+    : segments
+      .filter((segment) => segment.value > 0)
+      .map((segment) => {
+        const length = (segment.value / total) * circumference;
+        const arc = `<circle cx="${center}" cy="${center}" r="${radius}" fill="none" stroke="${segment.color}" stroke-width="${strokeWidth}"
+          stroke-dasharray="${length.toFixed(2)} ${(circumference - length).toFixed(2)}" stroke-dashoffset="${(-offset).toFixed(2)}"
+          transform="rotate(-90 ${center} ${center})"><title>${escapeHtml(segment.label)}: ${segment.value}</title></circle>`;
+        offset += length;
+        return arc;
+      })
+      .join("");
+
+  const legend = segments
+    .map(
+      (segment) => `
+      <span style="display:inline-flex;align-items:center;gap:6px;margin:0 8px;">
+        <span style="display:inline-block;width:12px;height:12px;border-radius:2px;background:${segment.color};"></span>
+        ${escapeHtml(segment.label)} (${segment.value})
+      </span>`
+    )
+    .join("");
+
+  return `
+    <svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${size} ${size}" role="img">
+      ${arcs}
+      <text x="${center}" y="${center}" text-anchor="middle" dominant-baseline="central" font-size="28" font-weight="bold" fill="#333">${total}</text>
+    </svg>
+    <div style="font-size:13px;margin-top:8px;">${legend}</div>
+  `;
+}
+
+// Fonction pour générer une courbe en SVG (ex: taux de réussite sur les derniers runs)
+export function renderLineChartSvg(
+  points: Array<{ label: string; value: number }>,
+  options: { width?: number; height?: number; max?: number; unit?: string; color?: string } = {}
+): string {
+  const { width = 600, height = 200, max = 100, unit = "%", color = "#0e4ba1" } = options;
+  if (points.length === 0) return "";
+
+  const padding = 30;
+  const stepX = points.length > 1 ? (width - padding * 2) / (points.length - 1) : 0;
+  const toY = (value: number) => height - padding - (value / max) * (height - padding * 2);
+  const coordinates = points.map((point, i) => ({
+    ...point,
+    x: padding + i * stepX,
+    y: toY(Math.min(point.value, max)),
+  }));
+
+  return `
+    <svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" role="img">
+      <line x1="${padding}" y1="${toY(0)}" x2="${width - padding}" y2="${toY(0)}" stroke="#ccc"/>
+      <line x1="${padding}" y1="${toY(max)}" x2="${width - padding}" y2="${toY(max)}" stroke="#eee" stroke-dasharray="4 4"/>
+      <text x="4" y="${toY(max) + 4}" font-size="10" fill="#999">${max}${unit}</text>
+      <text x="4" y="${toY(0) + 4}" font-size="10" fill="#999">0${unit}</text>
+      <polyline fill="none" stroke="${color}" stroke-width="2" points="${coordinates.map((c) => `${c.x.toFixed(1)},${c.y.toFixed(1)}`).join(" ")}"/>
+      ${coordinates
+        .map(
+          (c) => `<circle cx="${c.x.toFixed(1)}" cy="${c.y.toFixed(1)}" r="4" fill="${color}"><title>${escapeHtml(c.label)}: ${c.value}${unit}</title></circle>`
+        )
+        .join("")}
+    </svg>
+  `;
+}
+
+// Fonction pour lister les ressources externes (http/https) chargées par un rapport HTML.
+// Seuls le balisage et les blocs <style> générés par le reporter sont inspectés : le contenu des tests
+// est échappé, un "url(https://...)" dans un message d'erreur n'est que du texte.
+export function findExternalResources(html: string): string[] {
+  const pattern = /<(?:script|link|img|iframe|video|audio|source)\b[^>]*\b(?:src|href)\s*=\s*["']((?:https?:)?\/\/[^"']+)["']/gi;
+  const styleBlocks = /<style\b[^>]*>([\s\S]*?)<\/style>/gi;
+  const fromCss = /url\(\s*["']?((?:https?:)?\/\/[^"')]+)/gi;
+  return [
+    ...Array.from(html.matchAll(pattern)).map((m) => m[1]),
+    ...Array.from(html.matchAll(styleBlocks)).flatMap((block) => Array.from(block[1].matchAll(fromCss)).map((m) => m[1])),
+  ];
+}
+
+// Fonction pour signaler un rapport qui ne s'afficherait pas sans réseau, sans bloquer son écriture
+export function warnIfNotSelfContained(html: string, reportName: string): void {
+  const external = findExternalResources(html);
+  if (external.length > 0) {
+    console.warn(`⚠️ ${reportName} is not self-contained, it loads external resources: ${external.join(", ")}`);
+  }
+}
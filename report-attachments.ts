@@ -0,0 +1,173 @@
+import { TestResult } from "@playwright/test/reporter";
+import fs from "fs";
+import path from "path";
+import { escapeHtml } from "./html-escape";
+
+// Pièce jointe d'une tentative, telle que fournie par TestResult.attachments
+export interface ReportAttachment {
+  name: string;
+  contentType: string;
+  path?: string;
+  body?: Buffer;
+}
+
+// Pièce jointe copiée dans le dossier du rapport
+export interface CopiedAttachment {
+  name: string;
+  contentType: string;
+  kind: "image" | "video" | "trace" | "other";
+  /** Chemin relatif au fichier HTML, utilisable dans href/src */
+  relativePath: string;
+  absolutePath: string;
+  size: number;
+}
+
+const EXTENSIONS: { [contentType: string]: string } = {
+  "image/png": ".png",
+  "image/jpeg": ".jpg",
+  "video/webm": ".webm",
+  "application/zip": ".zip",
+  "application/json": ".json",
+  "text/plain": ".txt",
+  "text/html": ".html",
+};
+
+// Fonction pour conserver les pièces jointes d'un TestResult
+export function collectAttachments(result: TestResult): ReportAttachment[] {
+  return result.attachments
+    .filter((attachment) => attachment.path || attachment.body)
+    .map((attachment) => ({
+      name: attachment.name,
+      contentType: attachment.contentType,
+      path: attachment.path,
+      body: attachment.body,
+    }));
+}
+
+// Fonction pour déterminer comment afficher une pièce jointe
+function attachmentKind(attachment: ReportAttachment): CopiedAttachment["kind"] {
+  if (attachment.contentType.startsWith("image/")) return "image";
+  if (attachment.contentType.startsWith("video/")) return "video";
+  if (attachment.name === "trace" || (attachment.path && attachment.path.endsWith(".zip"))) return "trace";
+  return "other";
+}
+
+// Fonction pour rendre un nom de fichier sûr pour le système de fichiers et les URLs
+function safeFileName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9._-]+/g, "_");
+}
+
+// Fonction pour copier les pièces jointes dans <outputDir>/attachments/<testId>/
+export function copyAttachments(
+  attachments: ReportAttachment[],
+  outputDir: string,
+  testId: string,
+  retry: number
+): CopiedAttachment[] {
+  const copied: CopiedAttachment[] = [];
+  const relativeDir = path.posix.join("attachments", safeFileName(testId));
+  const targetDir = path.join(outputDir, relativeDir);
+
+  attachments.forEach((attachment, index) => {
+    const sourceName = attachment.path
+      ? path.basename(attachment.path)
+      : `${attachment.name}${EXTENSIONS[attachment.contentType] || ""}`;
+    const fileName = safeFileName(`retry${retry}-${index}-${sourceName}`);
+    const absolutePath = path.join(targetDir, fileName);
+
+    try {
+      fs.mkdirSync(targetDir, { recursive: true });
+      if (attachment.path) {
+        fs.copyFileSync(attachment.path, absolutePath);
+      } else if (attachment.body) {
+        fs.writeFileSync(absolutePath, attachment.body);
+      }
+      copied.push({
+        name: attachment.name,
+        contentType: attachment.contentType,
+        kind: attachmentKind(attachment),
+        relativePath: path.posix.join(relativeDir, fileName),
+        absolutePath,
+        size: fs.statSync(absolutePath).size,
+      });
+    } catch (error) {
+      console.warn(`⚠️ Unable to copy attachment "${attachment.name}" for test ${testId}:`, error.message);
+    }
+  });
+
+  return copied;
+}
+
+// Styles communs aux vignettes, vidéos et à la lightbox
+export const attachmentStyles = `
+  .attachments { display: flex; flex-wrap: wrap; gap: 12px; margin: 10px 0; align-items: flex-start; }
+  .attachments img.thumbnail { max-width: 200px; max-height: 140px; border-radius: 6px; border: 1px solid #ccc; cursor: zoom-in; }
+  .attachments video { max-width: 360px; border-radius: 6px; border: 1px solid #ccc; }
+  .attachments .trace, .attachments .other { font-size: 0.95em; background: #f1f1f1; padding: 8px 12px; border-radius: 6px; }
+  .attachments code { display: block; margin-top: 4px; font-size: 0.9em; color: #555; }
+  .lightbox { display: none; position: fixed; inset: 0; background: rgba(0,0,0,0.85); z-index: 1000; align-items: center; justify-content: center; cursor: zoom-out; }
+  .lightbox.active { display: flex; }
+  .lightbox img { max-width: 95vw; max-height: 95vh; box-shadow: 0 4px 24px rgba(0,0,0,0.5); }
+`;
+
+// Conteneur et script de la lightbox, à placer une fois dans le <body>
+export const lightboxHtml = `
+  <div class="lightbox" id="lightbox" onclick="this.classList.remove('active')"><img id="lightbox-img" alt="Screenshot"/></div>
+  <script>
+    function openLightbox(src) {
+      document.getElementById('lightbox-img').src = src;
+      document.getElementById('lightbox').classList.add('active');
+    }
+    document.addEventListener('keydown', function(e) {
+      if (e.key === 'Escape') document.getElementById('lightbox').classList.remove('active');
+    });
+  </script>
+`;
+
+// Fonction pour générer le HTML des pièces jointes d'un test
+export function renderAttachmentsHtml(attachments: CopiedAttachment[]): string {
+  if (!attachments.length) return "";
+
+  return `<div class="attachments">${attachments
+    .map((a) => {
+      const href = escapeHtml(a.relativePath);
+      const name = escapeHtml(a.name);
+      switch (a.kind) {
+        case "image":
+          return `<img class="thumbnail" src="${href}" alt="${name}" title="${name}" onclick="openLightbox(this.src)"/>`;
+        case "video":
+          return `<video src="${href}" controls preload="metadata"></video>`;
+        case "trace":
+          return `<div class="trace">📦 <a href="${href}" download>${name}</a><code>npx playwright show-trace ${href}</code></div>`;
+        default:
+          return `<div class="other">📎 <a href="${href}">${name}</a></div>`;
+      }
+    })
+    .join("")}</div>`;
+}
+
+// Fonction pour choisir la première capture d'écran de chaque test dans la limite de taille de l'email
+export function selectEmailScreenshots(
+  tests: Array<{ id: string; attachments: CopiedAttachment[] }>,
+  maxTotalBytes: number
+): Map<string, { filename: string; path: string; cid: string }> {
+  const selected = new Map<string, { filename: string; path: string; cid: string }>();
+  let totalBytes = 0;
+
+  for (const test of tests) {
+    const screenshot = test.attachments.find((a) => a.kind === "image");
+    if (!screenshot) continue;
+    if (totalBytes + screenshot.size > maxTotalBytes) {
+      console.warn(`⚠️ Email screenshot size limit reached (${maxTotalBytes} bytes), remaining screenshots skipped.`);
+      break;
+    }
+    totalBytes += screenshot.size;
+    selected.set(test.id, {
+      filename: path.basename(screenshot.absolutePath),
+      path: screenshot.absolutePath,
+      cid: `screenshot-${selected.size}@report`,
+    });
+  }
+
+  return selected;
+}
@@ -0,0 +1,88 @@
+import { expect, test } from "@playwright/test";
+import type { FullConfig, FullResult, Reporter, Suite, TestCase, TestResult } from "@playwright/test/reporter";
+import fs from "fs";
+import path from "path";
+import FailedReport from "./failed-report";
+import FullTestReport from "./full-test-report";
+import { escapeHtml } from "./html-escape";
+
+// Valeurs contrôlées par les tests qui casseraient la page ou injecteraient du script si elles n'étaient pas échappées
+const PAYLOADS = [
+  "<script>alert(1)</script>",
+  '"onerror=alert(1)//',
+  "`${alert(1)}`",
+  "</style><img src=x onerror=alert(1)>",
+];
+
+// Fonction pour simuler un test Playwright dont le titre, le describe et les tags portent les valeurs malveillantes
+function fakeTest(id: string, title: string, tags: string[]): TestCase {
+  return {
+    id,
+    title,
+    tags,
+    timeout: 30000,
+    location: { file: "/tests/checkout.spec.ts", line: 12, column: 3 },
+    titlePath: () => ["", "chromium", "checkout.spec.ts", `Checkout ${PAYLOADS[0]}`, title],
+    parent: { project: () => ({ name: "chromium" }) },
+    outcome: () => "unexpected",
+  } as unknown as TestCase;
+}
+
+function fakeResult(message: string): TestResult {
+  return {
+    status: "failed",
+    retry: 0,
+    duration: 1200,
+    startTime: new Date(),
+    errors: [{ message }],
+    attachments: [],
+    steps: [],
+    stdout: [],
+    stderr: [],
+  } as unknown as TestResult;
+}
+
+// Fonction pour dérouler un run d'un seul test en échec et lire le rapport HTML généré
+async function renderReport(reporter: Reporter, htmlPath: string): Promise<string> {
+  const tests = PAYLOADS.map((payload, index) =>
+    fakeTest(`test-${index}`, `Pay ${payload}`, [`@realm:${payload}`, "@local:fr_FR", `@payment_method:${payload}`, `@${payload}`])
+  );
+  reporter.onBegin?.({ workers: 1, projects: [], version: "1.48.2" } as unknown as FullConfig, { allTests: () => tests } as unknown as Suite);
+  tests.forEach((t, index) => reporter.onTestEnd?.(t, fakeResult(`Error: ${PAYLOADS[index]}\n\nExpected: ${PAYLOADS[index]}\nReceived: ${PAYLOADS[index]}`)));
+  await reporter.onEnd?.({ status: "failed", startTime: new Date(), duration: 1500 } as FullResult);
+  return fs.readFileSync(htmlPath, "utf8");
+}
+
+function expectEscaped(html: string) {
+  for (const payload of PAYLOADS) {
+    expect(html).not.toContain(payload);
+    expect(html).toContain(escapeHtml(payload));
+  }
+}
+
+// Les rapports sont écrits dans costum-report, relatif au répertoire courant : on se place dans le dossier de sortie du test
+const initialCwd = process.cwd();
+
+test.beforeEach(({}, testInfo) => {
+  fs.mkdirSync(path.join(testInfo.outputDir, "costum-report"), { recursive: true });
+  process.chdir(testInfo.outputDir);
+});
+
+test.afterEach(() => {
+  process.chdir(initialCwd);
+});
+
+test("full-test-report escapes titles, tags and errors", async () => {
+  const html = await renderReport(new FullTestReport({ liveProgress: false }), path.resolve("costum-report/full-test-report.html"));
+  expectEscaped(html);
+});
+
+test("failed-report escapes titles, tags and errors", async () => {
+  const reporter = new FailedReport({ liveProgress: false, notifications: { email: { enabled: false } } });
+  const html = await renderReport(reporter, path.resolve("costum-report/failed-report.html"));
+  expectEscaped(html);
+});
+
+test("escapeHtml escapes every character that can leave a text node or an attribute", () => {
+  expect(escapeHtml(`<a href="x" title='y'>\`&</a>`)).toBe("&lt;a href=&quot;x&quot; title=&#39;y&#39;&gt;&#96;&amp;&lt;/a&gt;");
+});
@@ -0,0 +1,242 @@
+import { TestOutcome, TestRecord } from "./report-model";
+import { TagSchema, collectDimensionValues, dimensionLabel, orderDimensionKeys } from "./tag-schema";
+import { escapeHtml } from "./html-escape";
+
+// Dimension filtrable dans la barre d'outils du rapport
+export interface FilterDimension {
+  key: string;
+  label: string;
+  values: string[];
+}
+
+// Les dimensions sont préfixées dans le hash de l'URL pour ne pas entrer en collision avec les clés de la barre
+// d'outils (status, q, sort) : une dimension "status" ne remplace pas le filtre de statut
+export function dimensionFilterKey(dimension: string): string {
+  return `d.${dimension}`;
+}
+
+// Fonction pour déterminer la classe de statut d'un test (bordure de la carte et filtre "statut")
+export function testStatusClass(outcome: TestOutcome): "passed" | "failed" | "flaky" | "skipped" {
+  if (outcome === "expected") return "passed";
+  if (outcome === "flaky") return "flaky";
+  if (outcome === "skipped") return "skipped";
+  return "failed";
+}
+
+// Fonction pour lister les dimensions filtrables et leurs valeurs rencontrées dans le run
+export function buildFilterDimensions(records: TestRecord[], tagSchema: TagSchema): FilterDimension[] {
+  const values = collectDimensionValues(records.map((record) => record.dimensions));
+  return orderDimensionKeys(tagSchema, values.keys()).map((key) => ({
+    key,
+    label: dimensionLabel(tagSchema, key),
+    values: values.get(key),
+  }));
+}
+
+// Fonction pour générer les attributs data-* lus par le script de filtrage
+export function testFilterAttributes(
+  record: TestRecord & { rawError?: string },
+  index: number
+): string {
+  const dims: { [key: string]: string | string[] } = { status: testStatusClass(record.outcome) };
+  for (const [dimension, value] of Object.entries(record.dimensions)) dims[dimensionFilterKey(dimension)] = value;
+  const search = [record.title, record.location, record.rawError || ""].join(" ").toLowerCase();
+  return [
+    `data-index="${index}"`,
+    `data-duration="${record.duration}"`,
+    `data-dims="${escapeHtml(JSON.stringify(dims))}"`,
+    `data-search="${escapeHtml(search)}"`,
+  ].join(" ");
+}
+
+// Styles de la barre de filtres
+export const reportFilterStyles = `
+  .report-toolbar { position: sticky; top: 0; z-index: 10; background: #fff; border-radius: 8px; box-shadow: 0 1px 4px #ccc; padding: 12px 16px; margin: 0 auto 20px auto; display: flex; flex-wrap: wrap; gap: 10px; align-items: center; font-size: 13px; }
+  .report-toolbar label { display: flex; flex-direction: column; gap: 2px; font-weight: bold; color: #0e4ba1; }
+  .report-toolbar select, .report-toolbar input { font-size: 13px; padding: 4px 6px; border: 1px solid #ccc; border-radius: 4px; font-weight: normal; }
+  .report-toolbar input[type="search"] { min-width: 220px; }
+  .report-toolbar button { font-size: 13px; padding: 6px 10px; border: none; border-radius: 4px; background: #0e4ba1; color: #fff; cursor: pointer; align-self: flex-end; }
+  .report-toolbar button.secondary { background: #95a5a6; }
+  .report-toolbar .filter-count { margin-left: auto; align-self: flex-end; color: #555; }
+  .test.filtered-out, .describe.filtered-out { display: none; }
+  .filter-empty { display: none; text-align: center; color: #999; padding: 20px; }
+  .filter-empty.visible { display: block; }
+`;
+
+// Libellés de la barre d'outils, dans la langue du rapport
+export interface FilterToolbarLabels {
+  status: string;
+  statuses: { passed: string; failed: string; flaky: string; skipped: string };
+  all: string;
+  search: string;
+  searchPlaceholder: string;
+  sort: string;
+  runOrder: string;
+  durationDesc: string;
+  durationAsc: string;
+  expandAll: string;
+  collapseAll: string;
+  reset: string;
+  /** Suffixe du compteur "12 / 40 tests affichés" */
+  shown: string;
+  noMatch: string;
+}
+
+// Fonction pour générer la barre d'outils : filtres, recherche, tri, déplier / replier
+export function renderReportFilterToolbar(dimensions: FilterDimension[], labels: FilterToolbarLabels): string {
+  const select = (key: string, label: string, options: Array<[string, string]>) => `
+    <label>${escapeHtml(label)}
+      <select data-filter="${escapeHtml(key)}">
+        <option value="">${escapeHtml(labels.all)}</option>
+        ${options.map(([value, text]) => `<option value="${escapeHtml(value)}">${escapeHtml(text)}</option>`).join("")}
+      </select>
+    </label>`;
+
+  return `
+    <div class="report-toolbar" id="report-toolbar">
+      ${select("status", labels.status, (["passed", "failed", "flaky", "skipped"] as const).map((status) => [status, labels.statuses[status]]))}
+      ${dimensions
+        .filter((dimension) => dimension.values.length > 0)
+        .map((dimension) => select(dimensionFilterKey(dimension.key), dimension.label, dimension.values.map((value) => [value, value])))
+        .join("")}
+      <label>${escapeHtml(labels.search)}
+        <input type="search" data-filter="q" placeholder="${escapeHtml(labels.searchPlaceholder)}" />
+      </label>
+      <label>${escapeHtml(labels.sort)}
+        <select data-filter="sort">
+          <option value="">${escapeHtml(labels.runOrder)}</option>
+          <option value="duration-desc">${escapeHtml(labels.durationDesc)}</option>
+          <option value="duration-asc">${escapeHtml(labels.durationAsc)}</option>
+        </select>
+      </label>
+      <button type="button" onclick="setAllDescribes(true)">${escapeHtml(labels.expandAll)}</button>
+      <button type="button" onclick="setAllDescribes(false)">${escapeHtml(labels.collapseAll)}</button>
+      <button type="button" class="secondary" onclick="resetFilters()">${escapeHtml(labels.reset)}</button>
+      <span class="filter-count" id="filter-count" data-label="${escapeHtml(labels.shown)}"></span>
+    </div>
+    <div class="filter-empty" id="filter-empty">${escapeHtml(labels.noMatch)}</div>`;
+}
+
+/**
+ * Script de filtrage côté navigateur.
+ * L'état des filtres est conservé dans le hash de l'URL (#status=failed&d.local=FR&d.realm=X)
+ * pour pouvoir partager un lien ; les hash sans "=" (ancres de la grille de couverture) sont ignorés.
+ */
+export const reportFilterScript = `
+  function setDescribeOpen(content, open) {
+    content.classList.toggle('active', open);
+    const header = content.previousElementSibling;
+    header.textContent = open ? header.textContent.replace('▶', '▼') : header.textContent.replace('▼', '▶');
+  }
+
+  function toggleDescribe(id) {
+    const content = document.getElementById(id);
+    setDescribeOpen(content, !content.classList.contains('active'));
+  }
+
+  function setAllDescribes(open) {
+    document.querySelectorAll('.describe:not(.filtered-out) .describe-content').forEach(function (content) {
+      setDescribeOpen(content, open);
+    });
+  }
+
+  function readFilterState() {
+    const hash = location.hash.slice(1);
+    if (hash.indexOf('=') === -1) return null;
+    const params = new URLSearchParams(hash);
+    const state = {};
+    params.forEach(function (value, key) { state[key] = value; });
+    return state;
+  }
+
+  function currentFilterState() {
+    const state = {};
+    document.querySelectorAll('#report-toolbar [data-filter]').forEach(function (input) {
+      if (input.value) state[input.getAttribute('data-filter')] = input.value;
+    });
+    return state;
+  }
+
+  function writeFilterState(state) {
+    const params = new URLSearchParams(state).toString();
+    history.replaceState(null, '', params ? '#' + params : location.pathname + location.search);
+  }
+
+  function matchesFilters(test, state) {
+    const dims = JSON.parse(test.getAttribute('data-dims'));
+    for (const key in state) {
+      if (key === 'q' || key === 'sort') continue;
+      const value = dims[key];
+      const values = Array.isArray(value) ? value : [value];
+      if (values.indexOf(state[key]) === -1) return false;
+    }
+    return !state.q || test.getAttribute('data-search').indexOf(state.q.toLowerCase()) !== -1;
+  }
+
+  function sortTests(content, sort) {
+    const tests = Array.prototype.slice.call(content.querySelectorAll(':scope > .test'));
+    tests.sort(function (a, b) {
+      if (sort === 'duration-desc') return Number(b.getAttribute('data-duration')) - Number(a.getAttribute('data-duration'));
+      if (sort === 'duration-asc') return Number(a.getAttribute('data-duration')) - Number(b.getAttribute('data-duration'));
+      return Number(a.getAttribute('data-index')) - Number(b.getAttribute('data-index'));
+    });
+    tests.forEach(function (test) { content.appendChild(test); });
+  }
+
+  function applyFilters(state) {
+    const active = Object.keys(state).some(function (key) { return key !== 'sort'; });
+    let visible = 0;
+    let total = 0;
+    document.querySelectorAll('.describe').forEach(function (describe) {
+      const content = describe.querySelector('.describe-content');
+      sortTests(content, state.sort);
+      let shown = 0;
+      content.querySelectorAll(':scope > .test').forEach(function (test) {
+        const match = matchesFilters(test, state);
+        test.classList.toggle('filtered-out', !match);
+        total++;
+        if (match) shown++;
+      });
+      visible += shown;
+      describe.classList.toggle('filtered-out', shown === 0);
+      // Avec un filtre actif, les sections qui contiennent des résultats sont dépliées
+      if (active && shown > 0) setDescribeOpen(content, true);
+    });
+    const counter = document.getElementById('filter-count');
+    counter.textContent = visible + ' / ' + total + ' ' + counter.getAttribute('data-label');
+    document.getElementById('filter-empty').classList.toggle('visible', visible === 0);
+  }
+
+  function syncFilterInputs(state) {
+    document.querySelectorAll('#report-toolbar [data-filter]').forEach(function (input) {
+      input.value = state[input.getAttribute('data-filter')] || '';
+    });
+  }
+
+  function onFilterChange() {
+    const state = currentFilterState();
+    writeFilterState(state);
+    applyFilters(state);
+  }
+
+  function resetFilters() {
+    syncFilterInputs({});
+    onFilterChange();
+  }
+
+  function loadFiltersFromHash() {
+    const state = readFilterState();
+    if (!state) return;
+    syncFilterInputs(state);
+    applyFilters(currentFilterState());
+  }
+
+  document.addEventListener('DOMContentLoaded', function () {
+    document.querySelectorAll('#report-toolbar [data-filter]').forEach(function (input) {
+      input.addEventListener(input.tagName === 'INPUT' ? 'input' : 'change', onFilterChange);
+    });
+    applyFilters(currentFilterState());
+    loadFiltersFromHash();
+  });
+  window.addEventListener('hashchange', loadFiltersFromHash);
+`;
@@ -0,0 +1,304 @@
+import { TestCase, TestResult, TestError, TestStep } from "@playwright/test/reporter";
+import path from "path";
+import { ReportAttachment, collectAttachments } from "./report-attachments";
+import { DiffLine, cleanStack, parseErrorDiff } from "./error-details";
+import { DEFAULT_TAG_SCHEMA, TagIssue, TagSchema, TagValues, parseTags } from "./tag-schema";
+
+// Erreur extraite d'un TestResult, nettoyée des codes ANSI
+export interface ParsedError {
+  rawError: string;
+  expected: string[];
+  actual: string[];
+  /** Position de l'erreur dans le code du test, ex: "orders.spec.ts:42:7" */
+  sourceLocation?: string;
+  /** Extrait de code autour de l'erreur, fourni par Playwright */
+  snippet?: string;
+  /** Frames "at ..." du test, sans node_modules */
+  stack?: string;
+  /** Diff ligne à ligne des valeurs attendues et reçues */
+  diff?: DiffLine[];
+}
+
+// Libellés courts des statuts affichés en badge, ex: "FAILED", "FLAKY"
+export type StatusBadgeLabels = { [status in TestResult["status"] | "flaky"]: string };
+
+// Fonction pour choisir le badge d'un test, un test passé après retry est affiché flaky
+export function statusBadge(record: TestRecord, badges: StatusBadgeLabels): string {
+  return badges[record.outcome === "flaky" ? "flaky" : record.status];
+}
+
+// Étape d'une tentative (test.step, appel d'API, expect ou hook), avec ses sous-étapes
+export interface StepRecord {
+  title: string;
+  category: string;
+  /** Début de l'étape, en ms depuis le début de la tentative */
+  offset: number;
+  duration: number;
+  error?: ParsedError;
+  steps: StepRecord[];
+}
+
+// Une exécution d'un test (retry 0 = première tentative)
+export interface TestAttempt {
+  retry: number;
+  status: TestResult["status"];
+  duration: number;
+  startTime: string;
+  errors: ParsedError[];
+  attachments: ReportAttachment[];
+  /** Arbre des étapes, absent des rapports produits avant son introduction */
+  steps?: StepRecord[];
+  /** Sorties console de la tentative (console.log, process.stdout...), sans codes ANSI */
+  stdout?: string;
+  stderr?: string;
+}
+
+// "expected" | "unexpected" | "flaky" | "skipped", voir TestCase.outcome()
+export type TestOutcome = ReturnType<TestCase["outcome"]>;
+
+// Résultat consolidé d'un test, toutes tentatives confondues
+export interface TestRecord {
+  id: string;
+  title: string;
+  location: string;
+  /** Groupe d'affichage : projet › fichier › describes imbriqués */
+  describeName: string;
+  /** Projet Playwright (vide si la config n'en nomme pas) */
+  projectName: string;
+  /** Fichier du test, relatif au testDir */
+  file: string;
+  /** Describes imbriqués, du plus externe au plus interne */
+  describePath: string[];
+  tags: string[];
+  /** Valeurs des dimensions portées par les tags (schéma et tags libres), ex: { realm: "EU", payment_method: ["card"] } */
+  dimensions: TagValues;
+  /** Problèmes détectés sur les tags par rapport au schéma */
+  tagIssues: TagIssue[];
+  /** Statut de la dernière tentative */
+  status: TestResult["status"];
+  outcome: TestOutcome;
+  /** Somme des durées de toutes les tentatives */
+  duration: number;
+  /** Timeout du test en ms, 0 si désactivé */
+  timeout: number;
+  attempts: TestAttempt[];
+}
+
+// Fonction pour supprimer les codes ANSI
+export function stripAnsiCodes(str: string): string {
+  return str.replace(/\x1B\[[0-9;]*[a-zA-Z]/g, "");
+}
+
+// Fonction pour extraire les tags depuis test.info().tags
+export function extractTags(test: TestCase, emptyLabel: string): string[] {
+  const tags = test.tags || [];
+  return tags.length > 0 ? tags : [emptyLabel];
+}
+
+// Fonction pour parser les tags et extraire les données selon le schéma
+export function extractDataFromTags(tags: string[], testTitle: string, schema: TagSchema = DEFAULT_TAG_SCHEMA): {
+  dimensions: TagValues;
+  issues: TagIssue[];
+} {
+  const { values, issues } = parseTags(tags, schema, testTitle);
+  return { dimensions: values, issues };
+}
+
+// Fonction pour extraire le message, les valeurs attendues et reçues d'une erreur
+// noErrorMessage : texte affiché pour une erreur sans message, dans la langue du rapport
+export function parseError(error: TestError, noErrorMessage: string): ParsedError {
+  const raw = error.message || noErrorMessage;
+  const expected = Array.from(raw.matchAll(/Expected(?: value)?:\s*([^\n]+)/gi)).map((m) =>
+    stripAnsiCodes(m[1].trim())
+  );
+  const actual = Array.from(raw.matchAll(/(?:Received|Actual):\s*([^\n]+)/gi)).map((m) =>
+    stripAnsiCodes(m[1].trim())
+  );
+  const rawError = stripAnsiCodes(raw);
+  return {
+    rawError,
+    expected,
+    actual,
+    sourceLocation: error.location
+      ? `${path.basename(error.location.file)}:${error.location.line}:${error.location.column}`
+      : undefined,
+    snippet: error.snippet ? stripAnsiCodes(error.snippet) : undefined,
+    stack: cleanStack(error.stack ? stripAnsiCodes(error.stack) : undefined),
+    diff: parseErrorDiff(rawError),
+  };
+}
+
+// Catégories d'étapes conservées : les fixtures et pièces jointes n'apportent rien à la lecture du test
+const STEP_CATEGORIES = ["hook", "test.step", "pw:api", "expect"];
+
+// Au-delà, les étapes suivantes sont ignorées pour garder des rapports de taille raisonnable
+const MAX_STEPS_PER_ATTEMPT = 300;
+
+// Fonction pour convertir les étapes d'une tentative en arbre sérialisable
+export function collectSteps(result: TestResult, noErrorMessage: string): StepRecord[] {
+  const start = result.startTime.getTime();
+  let remaining = MAX_STEPS_PER_ATTEMPT;
+
+  const convert = (steps: TestStep[]): StepRecord[] =>
+    steps.flatMap((step) => {
+      // Les sous-étapes d'une étape ignorée remontent d'un niveau
+      if (!STEP_CATEGORIES.includes(step.category)) return convert(step.steps);
+      if (remaining-- <= 0) return [];
+      return [{
+        title: step.title,
+        category: step.category,
+        offset: Math.max(0, step.startTime.getTime() - start),
+        duration: step.duration,
+        error: step.error ? parseError(step.error, noErrorMessage) : undefined,
+        steps: convert(step.steps),
+      }];
+    });
+
+  return convert(result.steps || []);
+}
+
+// Fonction pour trouver le chemin de l'étape en échec la plus profonde, du parent à l'enfant
+export function failingStepPath(steps: StepRecord[] = []): StepRecord[] {
+  for (const step of steps) {
+    const child = failingStepPath(step.steps);
+    if (child.length) return [step, ...child];
+    if (step.error) return [step];
+  }
+  return [];
+}
+
+// Fonction pour nommer l'étape en échec d'une tentative, ex: "Create order › Check status"
+// Les test.step sont privilégiés, l'appel d'API ou l'expect en échec n'est cité que s'il n'y en a pas
+export function failingStepTitle(attempt: TestAttempt | undefined): string | undefined {
+  const failing = failingStepPath(attempt?.steps);
+  const userSteps = failing.filter((step) => step.category === "test.step");
+  const titles = (userSteps.length ? userSteps : failing.slice(-1)).map((step) => step.title);
+  return titles.length ? titles.join(TITLE_PATH_SEPARATOR) : undefined;
+}
+
+// Au-delà, la sortie console d'une tentative est tronquée
+const MAX_OUTPUT_LENGTH = 20000;
+
+// Fonction pour assembler les morceaux de sortie console d'une tentative, tronqués au-delà de MAX_OUTPUT_LENGTH
+// truncated : mention ajoutée en fin de sortie tronquée, dans la langue du rapport
+export function joinOutput(chunks: (string | Buffer)[] = [], truncated: (count: number) => string): string | undefined {
+  const output = stripAnsiCodes(chunks.map((chunk) => chunk.toString()).join(""));
+  if (!output.trim()) return undefined;
+  return output.length > MAX_OUTPUT_LENGTH
+    ? `${output.slice(0, MAX_OUTPUT_LENGTH)}\n${truncated(output.length - MAX_OUTPUT_LENGTH)}`
+    : output;
+}
+
+// Séparateur des niveaux du chemin de groupe, comme dans le reporter HTML de Playwright
+export const TITLE_PATH_SEPARATOR = " › ";
+
+// Fonction pour découper test.titlePath() : ["", projet, fichier, ...describes, titre]
+export function splitTitlePath(test: TestCase): { projectName: string; file: string; describePath: string[] } {
+  const [, projectName = "", file = "", ...rest] = test.titlePath();
+  return {
+    projectName: test.parent?.project()?.name ?? projectName,
+    file: file || (test.location ? path.basename(test.location.file) : ""),
+    describePath: rest.slice(0, -1).filter(Boolean),
+  };
+}
+
+// Fonction pour construire le libellé du groupe projet › fichier › describes
+export function groupLabel(
+  projectName: string,
+  file: string,
+  describePath: string[],
+  noDescribe: string
+): string {
+  const describe = describePath.length ? describePath.join(TITLE_PATH_SEPARATOR) : noDescribe;
+  return [projectName, file, describe].filter(Boolean).join(TITLE_PATH_SEPARATOR);
+}
+
+// Fonction pour enregistrer une tentative dans la map des résultats, indexée par test.id
+export function recordTestResult(
+  records: Map<string, TestRecord>,
+  test: TestCase,
+  result: TestResult,
+  options: {
+    noTags: string;
+    noDescribe: string;
+    noErrorMessage: string;
+    outputTruncated: (count: number) => string;
+    tagSchema?: TagSchema;
+  }
+): TestRecord {
+  let record = records.get(test.id);
+
+  if (!record) {
+    const tags = extractTags(test, options.noTags);
+    const { dimensions, issues } = extractDataFromTags(tags, test.title, options.tagSchema);
+    const { projectName, file, describePath } = splitTitlePath(test);
+    record = {
+      id: test.id,
+      title: test.title,
+      location: test.location ? `${path.basename(test.location.file)}:${test.location.line}` : "unknown",
+      describeName: groupLabel(projectName, file, describePath, options.noDescribe),
+      projectName,
+      file,
+      describePath,
+      tags,
+      dimensions,
+      tagIssues: issues,
+      status: result.status,
+      outcome: test.outcome(),
+      duration: 0,
+      timeout: test.timeout,
+      attempts: [],
+    };
+    records.set(test.id, record);
+  }
+
+  record.attempts.push({
+    retry: result.retry,
+    status: result.status,
+    duration: result.duration,
+    startTime: result.startTime.toISOString(),
+    errors: result.errors.map((error) => parseError(error, options.noErrorMessage)),
+    attachments: collectAttachments(result),
+    steps: collectSteps(result, options.noErrorMessage),
+    stdout: joinOutput(result.stdout, options.outputTruncated),
+    stderr: joinOutput(result.stderr, options.outputTruncated),
+  });
+  record.status = result.status;
+  record.outcome = test.outcome();
+  record.duration += result.duration;
+
+  return record;
+}
+
+// Fonction pour récupérer la dernière tentative en échec
+export function lastFailedAttempt(record: TestRecord): TestAttempt | undefined {
+  return [...record.attempts].reverse().find((attempt) => attempt.errors.length > 0);
+}
+
+// Fonction pour récupérer les erreurs de la dernière tentative en échec, fusionnées
+export function failureDetails(record: TestRecord): ParsedError | undefined {
+  const failedAttempt = lastFailedAttempt(record);
+  if (!failedAttempt) return undefined;
+
+  return {
+    rawError: failedAttempt.errors.map((e) => e.rawError).join("\n\n"),
+    expected: failedAttempt.errors.flatMap((e) => e.expected),
+    actual: failedAttempt.errors.flatMap((e) => e.actual),
+  };
+}
+
+// Fonction pour résumer l'historique des tentatives, ex: "failed → passed"
+export function describeAttempts(record: TestRecord): string {
+  return record.attempts.map((attempt) => attempt.status).join(" → ");
+}
+
+// Fonction pour regrouper les tests par describe en conservant l'ordre d'apparition
+export function groupByDescribe<T extends { describeName: string }>(records: Iterable<T>): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const record of records) {
+    const tests = groups.get(record.describeName) || [];
+    tests.push(record);
+    groups.set(record.describeName, tests);
+  }
+  return groups;
+}
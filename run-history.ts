@@ -0,0 +1,122 @@
+import fs from "fs";
+import path from "path";
+import { TestOutcome, TestRecord } from "./report-model";
+
+// Résultat d'un test dans un run passé
+export interface HistoryTestEntry {
+  title: string;
+  describeName: string;
+  outcome: TestOutcome;
+  duration: number;
+}
+
+// Un run enregistré dans l'historique (un fichier JSON par run)
+export interface HistoryRun {
+  startTime: string;
+  status: string;
+  tests: { [testId: string]: HistoryTestEntry };
+}
+
+// Tendance d'un test en échec par rapport aux runs précédents
+export interface FailureTrend {
+  kind: "new" | "still-failing";
+  /** Nombre de runs consécutifs en échec, run courant inclus */
+  failingRuns: number;
+}
+
+// Fonction pour charger les runs précédents, du plus ancien au plus récent
+export function loadHistory(historyDir: string): HistoryRun[] {
+  if (!fs.existsSync(historyDir)) return [];
+
+  return fs
+    .readdirSync(historyDir)
+    .filter((file) => file.startsWith("run-") && file.endsWith(".json"))
+    .sort()
+    .flatMap((file) => {
+      try {
+        return [JSON.parse(fs.readFileSync(path.join(historyDir, file), "utf-8")) as HistoryRun];
+      } catch (error) {
+        console.warn(`⚠️ Ignoring unreadable history file ${file}:`, error.message);
+        return [];
+      }
+    });
+}
+
+// Fonction pour construire l'entrée d'historique du run courant
+export function toHistoryRun(records: TestRecord[], startTime: Date, status: string): HistoryRun {
+  const tests: HistoryRun["tests"] = {};
+  for (const record of records) {
+    tests[record.id] = {
+      title: record.title,
+      describeName: record.describeName,
+      outcome: record.outcome,
+      duration: record.duration,
+    };
+  }
+  return { startTime: startTime.toISOString(), status, tests };
+}
+
+// Fonction pour ajouter un run à l'historique en ne gardant que les maxRuns derniers
+export function appendToHistory(historyDir: string, run: HistoryRun, maxRuns: number): void {
+  fs.mkdirSync(historyDir, { recursive: true });
+  const fileName = `run-${run.startTime.replace(/[:.]/g, "-")}.json`;
+  fs.writeFileSync(path.join(historyDir, fileName), JSON.stringify(run), "utf-8");
+
+  const files = fs
+    .readdirSync(historyDir)
+    .filter((file) => file.startsWith("run-") && file.endsWith(".json"))
+    .sort();
+  for (const file of files.slice(0, Math.max(0, files.length - maxRuns))) {
+    fs.unlinkSync(path.join(historyDir, file));
+  }
+}
+
+// Fonction pour classer chaque échec du run courant en "nouveau" ou "toujours en échec"
+export function computeFailureTrends(records: TestRecord[], previousRuns: HistoryRun[]): Map<string, FailureTrend> {
+  const trends = new Map<string, FailureTrend>();
+
+  for (const record of records) {
+    if (record.outcome !== "unexpected") continue;
+
+    let failingRuns = 1;
+    for (let i = previousRuns.length - 1; i >= 0; i--) {
+      if (previousRuns[i].tests[record.id]?.outcome !== "unexpected") break;
+      failingRuns++;
+    }
+    trends.set(record.id, { kind: failingRuns > 1 ? "still-failing" : "new", failingRuns });
+  }
+
+  return trends;
+}
+
+// Fonction pour lister les tests en échec au run précédent qui passent maintenant
+export function findFixedTests(records: TestRecord[], previousRuns: HistoryRun[]): TestRecord[] {
+  const lastRun = previousRuns[previousRuns.length - 1];
+  if (!lastRun) return [];
+
+  return records.filter(
+    (record) =>
+      lastRun.tests[record.id]?.outcome === "unexpected"
+      && (record.outcome === "expected" || record.outcome === "flaky")
+  );
+}
+
+// Fonction pour calculer le taux de réussite d'un run (les tests ignorés ne comptent pas)
+export function passRate(run: HistoryRun): number {
+  const outcomes = Object.values(run.tests).map((test) => test.outcome).filter((outcome) => outcome !== "skipped");
+  if (outcomes.length === 0) return 100;
+  const passed = outcomes.filter((outcome) => outcome === "expected" || outcome === "flaky").length;
+  return Math.round((passed / outcomes.length) * 1000) / 10;
+}
+
+// Libellés des tendances d'échec, dans la langue du rapport
+export interface TrendLabels {
+  newSinceLastRun: string;
+  stillFailing: (failingRuns: number) => string;
+}
+
+// Fonction pour produire le libellé de tendance affiché dans les rapports
+export function describeTrend(trend: FailureTrend | undefined, labels: TrendLabels): string {
+  if (!trend) return "";
+  return trend.kind === "new" ? `🆕 ${labels.newSinceLastRun}` : `🔁 ${labels.stillFailing(trend.failingRuns)}`;
+}
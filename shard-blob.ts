@@ -0,0 +1,163 @@
+import { FullResult } from "@playwright/test/reporter";
+import fs from "fs";
+import path from "path";
+import { ParsedError, TestRecord, lastFailedAttempt } from "./report-model";
+import { copyAttachments } from "./report-attachments";
+import { RunConfigInfo } from "./json-export";
+
+// Version du format des blobs, à incrémenter à chaque changement incompatible
+export const SHARD_BLOB_SCHEMA_VERSION = 2;
+
+// Résultats sérialisés d'un shard, fusionnés ensuite par merge-reports.ts
+export interface ShardBlob {
+  schemaVersion: typeof SHARD_BLOB_SCHEMA_VERSION;
+  /** Reporter qui a écrit le blob ("failed-report" ou "full-test-report") */
+  generator: string;
+  shard?: { current: number; total: number };
+  result: { status: FullResult["status"]; startTime: string; duration: number };
+  config: RunConfigInfo;
+  /** Erreurs hors test du shard (global setup, crash de worker) */
+  globalErrors?: ParsedError[];
+  /** Les chemins des pièces jointes sont relatifs au dossier des blobs */
+  tests: TestRecord[];
+}
+
+// Résultat de la fusion des blobs, prêt à être rendu par un reporter
+export interface MergedShards {
+  records: TestRecord[];
+  result: FullResult;
+  config: RunConfigInfo;
+  globalErrors: ParsedError[];
+}
+
+// Fonction pour nommer le blob d'un shard, ex: "failed-report-shard-2-of-4"
+function blobBaseName(generator: string, shard?: ShardBlob["shard"]): string {
+  return shard
+    ? `${generator}-shard-${shard.current}-of-${shard.total}`
+    : `${generator}-${Date.now()}-${process.pid}`;
+}
+
+/**
+ * Fonction pour écrire les résultats d'un shard dans <blobDir>/<nom>.json.
+ * Les pièces jointes de la tentative affichée dans les rapports sont copiées à côté du blob
+ * pour que la fusion fonctionne sur une autre machine ; celles des autres tentatives ne gardent que leur nom.
+ */
+export function writeShardBlob(
+  blobDir: string,
+  generator: string,
+  records: TestRecord[],
+  result: FullResult,
+  config: RunConfigInfo,
+  globalErrors: ParsedError[] = []
+): string {
+  const shard = config.shard || undefined;
+  const baseName = blobBaseName(generator, shard);
+  const attachmentsDir = path.join(blobDir, `${baseName}-attachments`);
+  fs.mkdirSync(blobDir, { recursive: true });
+
+  const tests = records.map((record) => {
+    const displayed = lastFailedAttempt(record) || record.attempts[record.attempts.length - 1];
+    return {
+      ...record,
+      attempts: record.attempts.map((attempt) => ({
+        ...attempt,
+        attachments: attempt === displayed
+          ? copyAttachments(attempt.attachments, attachmentsDir, record.id, attempt.retry).map((copied) => ({
+            name: copied.name,
+            contentType: copied.contentType,
+            path: path.posix.join(`${baseName}-attachments`, copied.relativePath),
+          }))
+          : attempt.attachments.map(({ name, contentType }) => ({ name, contentType })),
+      })),
+    };
+  });
+
+  const blob: ShardBlob = {
+    schemaVersion: SHARD_BLOB_SCHEMA_VERSION,
+    generator,
+    shard,
+    result: { status: result.status, startTime: result.startTime.toISOString(), duration: result.duration },
+    config: {
+      version: config.version,
+      workers: config.workers,
+      projects: config.projects.map((project) => ({ name: project.name })),
+    },
+    globalErrors,
+    tests,
+  };
+
+  const blobPath = path.join(blobDir, `${baseName}.json`);
+  fs.writeFileSync(blobPath, JSON.stringify(blob), "utf-8");
+  console.log(`🧩 Shard results written to ${blobPath} (${tests.length} test(s)), merge them with merge-reports.ts.`);
+  return blobPath;
+}
+
+// Fonction pour lire les blobs d'un reporter, les chemins des pièces jointes redeviennent absolus
+export function readShardBlobs(blobDir: string, generator: string): ShardBlob[] {
+  if (!fs.existsSync(blobDir)) return [];
+
+  return fs
+    .readdirSync(blobDir)
+    .filter((file) => file.startsWith(`${generator}-`) && file.endsWith(".json"))
+    .sort()
+    .flatMap((file) => {
+      try {
+        const blob: ShardBlob = JSON.parse(fs.readFileSync(path.join(blobDir, file), "utf-8"));
+        if (blob.schemaVersion !== SHARD_BLOB_SCHEMA_VERSION || blob.generator !== generator) {
+          console.warn(`⚠️ Ignoring shard blob ${file}: unsupported schema version or generator.`);
+          return [];
+        }
+        for (const test of blob.tests) {
+          for (const attempt of test.attempts) {
+            for (const attachment of attempt.attachments) {
+              if (attachment.path) attachment.path = path.resolve(blobDir, attachment.path);
+            }
+          }
+        }
+        return [blob];
+      } catch (error) {
+        console.warn(`⚠️ Unable to read shard blob ${file}:`, error.message);
+        return [];
+      }
+    });
+}
+
+// Ordre de gravité des statuts de run, le plus grave l'emporte lors de la fusion
+const STATUS_SEVERITY: FullResult["status"][] = ["passed", "interrupted", "timedout", "failed"];
+
+// Fonction pour fusionner les blobs des shards en un seul run
+export function mergeShardBlobs(blobs: ShardBlob[]): MergedShards {
+  if (blobs.length === 0) throw new Error("No shard blob to merge");
+
+  const records = new Map<string, TestRecord>();
+  for (const blob of blobs) {
+    for (const test of blob.tests) {
+      if (records.has(test.id)) {
+        console.warn(`⚠️ Test "${test.title}" appears in several shard blobs, keeping the last one.`);
+      }
+      records.set(test.id, test);
+    }
+  }
+
+  const startTimes = blobs.map((blob) => new Date(blob.result.startTime).getTime());
+  const endTimes = blobs.map((blob, i) => startTimes[i] + blob.result.duration);
+  const startTime = Math.min(...startTimes);
+  const status = blobs
+    .map((blob) => blob.result.status)
+    .reduce((worst, current) => (STATUS_SEVERITY.indexOf(current) > STATUS_SEVERITY.indexOf(worst) ? current : worst));
+
+  const projects = new Map<string, { name: string }>();
+  blobs.forEach((blob) => blob.config.projects.forEach((project) => projects.set(project.name, project)));
+
+  console.log(`🧩 Merged ${blobs.length} shard blob(s): ${records.size} test(s), status "${status}".`);
+  return {
+    records: Array.from(records.values()),
+    result: { status, startTime: new Date(startTime), duration: Math.max(...endTimes) - startTime },
+    config: {
+      version: blobs[0].config.version,
+      workers: blobs.reduce((sum, blob) => sum + (blob.config.workers || 0), 0),
+      projects: Array.from(projects.values()),
+    },
+    globalErrors: blobs.flatMap((blob) => blob.globalErrors || []),
+  };
+}
@@ -0,0 +1,132 @@
+import axios from "axios";
+import {
+  NotificationChannel,
+  RetryPolicy,
+  RunSummary,
+  describeRunTiming,
+  failureGroups,
+  summaryHeadline,
+  summaryLabel,
+} from "./notifications";
+import { describeAttempts } from "./report-model";
+import { describeTrend } from "./run-history";
+import { formatTagValue } from "./tag-schema";
+
+export interface SlackChannelOptions {
+  enabled?: boolean;
+  retry?: RetryPolicy;
+  /** URL du webhook entrant Slack */
+  webhookUrl?: string;
+  /** Nombre max de tests listés par describe, les suivants sont résumés */
+  maxTestsPerGroup?: number;
+}
+
+// Limites de Slack : 50 blocs par message, 3000 caractères par bloc texte
+const MAX_BLOCKS = 50;
+const MAX_TEXT_LENGTH = 3000;
+
+// Fonction pour échapper le texte mrkdwn de Slack (&, <, > uniquement)
+function escapeSlack(value: unknown): string {
+  return String(value ?? "").replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+// Sous-ensemble des blocs Block Kit utilisés par le message
+type SlackText = { type: "mrkdwn" | "plain_text"; text: string };
+
+type SlackBlock =
+  | { type: "header"; text: SlackText }
+  | { type: "section"; text?: SlackText; fields?: SlackText[] }
+  | { type: "context"; elements: SlackText[] }
+  | { type: "divider" };
+
+export interface SlackMessage {
+  text: string;
+  blocks: SlackBlock[];
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+function markdownSection(text: string): SlackBlock {
+  return { type: "section", text: { type: "mrkdwn", text: truncate(text, MAX_TEXT_LENGTH) } };
+}
+
+// Fonction pour construire le message Slack Block Kit à partir du résumé
+export function buildSlackBlocks(summary: RunSummary, maxTestsPerGroup = 10): SlackMessage {
+  const { run, notification } = summary.i18n.messages;
+  const blocks: SlackBlock[] = [
+    { type: "header", text: { type: "plain_text", text: truncate(summaryHeadline(summary), 150) } },
+    {
+      type: "section",
+      fields: [
+        `*${notification.totalFailed}:*\n${summary.totalFailed}`,
+        `*${notification.flaky}:*\n${summary.flakyTests.length}`,
+        `*${notification.newFailures}:*\n${summary.newFailures}`,
+        `*${notification.fixed}:*\n${summary.fixedTests.length}`,
+        `*${notification.describeBlocks}:*\n${summary.failedTests.size}`,
+        `*${run.runDuration}:*\n${describeRunTiming(summary)}`,
+      ].map((text): SlackText => ({ type: "mrkdwn", text })),
+    },
+    { type: "context", elements: [{ type: "mrkdwn", text: notification.generatedOn(summary.i18n.formatDate(summary.generatedAt)) }] },
+  ];
+
+  if (summary.globalErrors.length) {
+    blocks.push(markdownSection(
+      `*🚨 ${run.globalErrors(summary.globalErrors.length)}*\n` +
+      summary.globalErrors.map((error) => `\`${escapeSlack(truncate(error.rawError.replace(/\n/g, " "), 300))}\``).join("\n")
+    ));
+  }
+
+  for (const { describeName, tests, countLabel } of failureGroups(summary)) {
+    const keys = summary.dimensionKeysByDescribe[describeName] || [];
+    const lines = tests.slice(0, maxTestsPerGroup).map((t) => {
+      const details = [
+        t.location,
+        ...keys.map((key) => `${summaryLabel(summary, key)}: ${formatTagValue(t.dimensions[key])}`),
+      ].join(" | ");
+      const error = truncate(t.rawError.replace(/\n/g, " "), 200);
+      const trend = t.trend ? ` ${describeTrend(t.trend, summary.i18n.messages.trend)}` : "";
+      return `• *${escapeSlack(t.title)}*${trend}\n    ${escapeSlack(details)}\n    \`${escapeSlack(error)}\``;
+    });
+    if (tests.length > maxTestsPerGroup) lines.push(`_${run.andMore(tests.length - maxTestsPerGroup)}_`);
+
+    blocks.push({ type: "divider" });
+    blocks.push(markdownSection(`*${escapeSlack(describeName)}* (${countLabel})\n${lines.join("\n")}`));
+  }
+
+  if (summary.flakyTests.length) {
+    blocks.push({ type: "divider" });
+    blocks.push(markdownSection(
+      `*🔁 ${run.flakyTitle(summary.flakyTests.length)}*\n` +
+      summary.flakyTests.map((t) => `• ${escapeSlack(t.title)} — ${describeAttempts(t)}`).join("\n")
+    ));
+  }
+
+  // Au-delà de la limite de blocs, on coupe et on renvoie vers le rapport complet
+  if (blocks.length > MAX_BLOCKS) {
+    const kept = blocks.slice(0, MAX_BLOCKS - 1);
+    kept.push(markdownSection(`_${notification.sectionsOmitted(blocks.length - kept.length)}_`));
+    return { text: summaryHeadline(summary), blocks: kept };
+  }
+
+  return { text: summaryHeadline(summary), blocks };
+}
+
+// Canal Slack via un webhook entrant
+export class SlackChannel implements NotificationChannel {
+  name = "slack";
+  enabled?: boolean;
+  retry: RetryPolicy;
+
+  constructor(private options: SlackChannelOptions) {
+    // Sans URL de webhook le canal est désactivé
+    this.enabled = options.enabled ?? Boolean(options.webhookUrl);
+    this.retry = options.retry || { attempts: 2, delayMs: 1000 };
+  }
+
+  async send(summary: RunSummary) {
+    if (!this.options.webhookUrl) throw new Error("Slack webhookUrl (SLACK_WEBHOOK_URL) is not defined");
+    await axios.post(this.options.webhookUrl, buildSlackBlocks(summary, this.options.maxTestsPerGroup));
+  }
+}
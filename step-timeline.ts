@@ -0,0 +1,77 @@
+import type { StepRecord } from "./report-model";
+import { escapeHtml } from "./html-escape";
+import { ErrorLabels, renderErrorsHtml } from "./error-details";
+
+// Icône de chaque catégorie d'étape
+const CATEGORY_ICONS: { [category: string]: string } = {
+  "test.step": "🔹",
+  "pw:api": "🌐",
+  expect: "✔️",
+  hook: "🪝",
+};
+
+// Styles de l'arbre des étapes
+export const stepTimelineStyles = `
+  .step-timeline { margin: 10px 0; font-size: 13px; }
+  .step-timeline > summary { cursor: pointer; color: #0e4ba1; font-weight: bold; }
+  .step { margin-left: 16px; border-left: 2px solid #e0e0e0; padding-left: 8px; }
+  .step > summary, .step-leaf { display: flex; align-items: center; gap: 8px; padding: 2px 0; list-style: none; }
+  .step > summary { cursor: pointer; }
+  .step > summary::before { content: "▸"; color: #888; }
+  .step[open] > summary::before { content: "▾"; }
+  .step-leaf::before { content: "•"; color: #bbb; }
+  .step-title { flex: 1; word-break: break-word; }
+  .step-duration { color: #666; min-width: 70px; text-align: right; }
+  .step-bar { position: relative; width: 160px; height: 8px; background: #f1f1f1; border-radius: 4px; flex-shrink: 0; }
+  .step-bar span { position: absolute; top: 0; height: 100%; min-width: 2px; background: #74b9ff; border-radius: 4px; }
+  .step-failed > .step-title, .step-failed > summary .step-title { color: #d63031; font-weight: bold; }
+  .step-failed .step-bar span { background: #d63031; }
+  .step-error { margin-left: 16px; }
+`;
+
+function renderStep(step: StepRecord, total: number, errorLabels: ErrorLabels): string {
+  const left = total > 0 ? Math.min(100, (step.offset / total) * 100) : 0;
+  const width = total > 0 ? Math.min(100 - left, (step.duration / total) * 100) : 0;
+  const failed = hasError(step);
+  const line = `
+        <span>${CATEGORY_ICONS[step.category] || ""}</span>
+        <span class="step-title">${escapeHtml(step.title)}</span>
+        <span class="step-duration">${step.duration} ms</span>
+        <span class="step-bar"><span style="left:${left.toFixed(1)}%;width:${width.toFixed(1)}%;"></span></span>`;
+  // L'erreur n'est affichée que sur l'étape la plus profonde, les parents la portent aussi dans Playwright
+  const ownError = step.error && !step.steps.some(hasError)
+    ? `<div class="step-error">${renderErrorsHtml([step.error], errorLabels)}</div>`
+    : "";
+
+  if (step.steps.length === 0 && !ownError) {
+    return `<div class="step-leaf${failed ? " step-failed" : ""}">${line}</div>`;
+  }
+  // Le chemin vers l'étape en échec est déplié par défaut
+  return `
+      <details class="step${failed ? " step-failed" : ""}"${failed ? " open" : ""}>
+        <summary>${line}</summary>
+        ${ownError}
+        ${step.steps.map((child) => renderStep(child, total, errorLabels)).join("")}
+      </details>`;
+}
+
+function hasError(step: StepRecord): boolean {
+  return !!step.error || step.steps.some(hasError);
+}
+
+// Fonction pour générer l'arbre dépliable des étapes d'une tentative, avec une barre de durée par étape
+export function renderStepTimelineHtml(
+  steps: StepRecord[] | undefined,
+  attemptDuration: number,
+  label: string,
+  errorLabels: ErrorLabels
+): string {
+  if (!steps || steps.length === 0) return "";
+  const total = Math.max(attemptDuration, ...steps.map((step) => step.offset + step.duration));
+  const failed = steps.some(hasError);
+  return `
+    <details class="step-timeline"${failed ? " open" : ""}>
+      <summary>⏱️ ${escapeHtml(label)} (${steps.length})</summary>
+      ${steps.map((step) => renderStep(step, total, errorLabels)).join("")}
+    </details>`;
+}
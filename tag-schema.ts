@@ -0,0 +1,178 @@
+import { escapeHtml } from "./html-escape";
+
+// Déclaration d'une dimension portée par les tags, ex: @realm:EU ou @payment_method:card
+export interface TagDimension {
+  /** Nom de la dimension, utilisé comme clé et comme préfixe du tag (@name:value) */
+  name: string;
+  /** Autres préfixes acceptés, ex: "locale" pour "local" */
+  aliases?: string[];
+  /** Plusieurs tags possibles, les valeurs sont regroupées dans un tableau */
+  multiple?: boolean;
+  /** Signalé dans le rapport de validation si absent */
+  required?: boolean;
+  /** Valeurs autorisées, toute autre valeur est signalée */
+  allowedValues?: string[];
+  /** Libellé affiché dans les rapports (défaut: libellé du catalogue de la langue, sinon name) */
+  label?: string;
+}
+
+export type TagSchema = TagDimension[];
+
+// Schéma par défaut, équivalent au comportement historique
+export const DEFAULT_TAG_SCHEMA: TagSchema = [
+  { name: "local", aliases: ["locale"], required: true },
+  { name: "realm", required: true },
+  { name: "payment_method", multiple: true },
+];
+
+export type TagValue = string | string[];
+
+// Valeurs des dimensions d'un test, indexées par nom de dimension (schéma et tags libres)
+export type TagValues = { [dimension: string]: TagValue };
+
+// Problème détecté sur les tags d'un test
+export interface TagIssue {
+  testTitle: string;
+  dimension: string;
+  kind: "missing" | "not-allowed" | "duplicate";
+  value?: string;
+}
+
+// Fonction pour parser les tags d'un test selon le schéma
+export function parseTags(
+  tags: string[],
+  schema: TagSchema,
+  testTitle: string
+): { values: TagValues; issues: TagIssue[] } {
+  const values: TagValues = {};
+  const issues: TagIssue[] = [];
+  const byPrefix = new Map<string, TagDimension>();
+  for (const dimension of schema) {
+    for (const prefix of [dimension.name, ...(dimension.aliases || [])]) byPrefix.set(prefix, dimension);
+  }
+
+  for (const tag of tags) {
+    if (!tag.startsWith("@")) continue;
+    // Seul le premier ":" sépare la clé de la valeur, la valeur peut contenir des ":" (URLs, heures)
+    const separator = tag.indexOf(":");
+    if (separator <= 1) continue;
+    const prefix = tag.slice(1, separator);
+    const value = tag.slice(separator + 1);
+    const dimension = byPrefix.get(prefix);
+
+    // Tag non déclaré dans le schéma : conservé comme dimension libre, répété (@team:a @team:b) il devient multiple
+    if (!dimension) {
+      const previous = values[prefix];
+      values[prefix] = previous === undefined ? value : [...(Array.isArray(previous) ? previous : [previous]), value];
+      continue;
+    }
+
+    if (dimension.allowedValues && !dimension.allowedValues.includes(value)) {
+      issues.push({ testTitle, dimension: dimension.name, kind: "not-allowed", value });
+    }
+    if (dimension.multiple) {
+      values[dimension.name] = [...((values[dimension.name] as string[]) || []), value];
+    } else {
+      if (values[dimension.name] !== undefined) {
+        issues.push({ testTitle, dimension: dimension.name, kind: "duplicate", value });
+      }
+      values[dimension.name] = value;
+    }
+  }
+
+  for (const dimension of schema) {
+    if (dimension.required && values[dimension.name] === undefined) {
+      issues.push({ testTitle, dimension: dimension.name, kind: "missing" });
+    }
+  }
+
+  return { values, issues };
+}
+
+// Fonction pour afficher une valeur de dimension (les valeurs multiples sont jointes)
+export function formatTagValue(value: TagValue | undefined): string {
+  if (value === undefined) return "N/A";
+  return Array.isArray(value) ? value.join(", ") : value;
+}
+
+// Fonction pour récupérer le libellé d'une dimension
+export function dimensionLabel(schema: TagSchema, name: string): string {
+  return schema.find((dimension) => dimension.name === name)?.label || name;
+}
+
+// Fonction pour compléter les libellés absents du schéma avec ceux du catalogue de la langue du rapport
+export function localizeTagSchema(schema: TagSchema, labels: { [dimension: string]: string }): TagSchema {
+  return schema.map((dimension) => (dimension.label || !labels[dimension.name] ? dimension : { ...dimension, label: labels[dimension.name] }));
+}
+
+// Fonction pour ordonner les clés selon le schéma, les dimensions libres à la fin
+export function orderDimensionKeys(schema: TagSchema, keys: Iterable<string>): string[] {
+  const order = schema.map((dimension) => dimension.name);
+  return Array.from(new Set(keys)).sort((a, b) => {
+    const ia = order.indexOf(a) === -1 ? order.length : order.indexOf(a);
+    const ib = order.indexOf(b) === -1 ? order.length : order.indexOf(b);
+    return ia - ib || a.localeCompare(b);
+  });
+}
+
+// Fonction pour lister les dimensions affichées pour un ensemble de tests, dans l'ordre du schéma :
+// les dimensions obligatoires (affichées "N/A" si absentes) et celles renseignées par au moins un test
+export function dimensionKeys(schema: TagSchema, dimensions: Iterable<TagValues>): string[] {
+  const keys = schema.filter((dimension) => dimension.required).map((dimension) => dimension.name);
+  for (const values of dimensions) keys.push(...Object.keys(values));
+  return orderDimensionKeys(schema, keys);
+}
+
+// Fonction pour collecter les valeurs rencontrées de chaque dimension, triées et sans doublon
+export function collectDimensionValues(dimensions: Iterable<TagValues>): Map<string, string[]> {
+  const values = new Map<string, Set<string>>();
+  for (const testValues of dimensions) {
+    for (const [key, value] of Object.entries(testValues)) {
+      const set = values.get(key) || new Set<string>();
+      (Array.isArray(value) ? value : [value]).forEach((v) => set.add(v));
+      values.set(key, set);
+    }
+  }
+  return new Map(Array.from(values.entries()).map(([key, set]) => [key, Array.from(set).sort()]));
+}
+
+// Libellés de la validation des tags, dans la langue du rapport
+export interface TagValidationLabels {
+  title: (issueCount: number) => string;
+  summary: (issueCount: number, testCount: number) => string;
+  missing: (dimension: string) => string;
+  notAllowed: (dimension: string, value: string) => string;
+  duplicate: (dimension: string, value: string) => string;
+}
+
+function describeIssue(issue: TagIssue, labels: TagValidationLabels): string {
+  switch (issue.kind) {
+    case "missing":
+      return labels.missing(issue.dimension);
+    case "not-allowed":
+      return labels.notAllowed(issue.dimension, issue.value);
+    default:
+      return labels.duplicate(issue.dimension, issue.value);
+  }
+}
+
+// Fonction pour afficher le rapport de validation des tags en fin de run
+export function logTagValidation(issues: TagIssue[], labels: TagValidationLabels): void {
+  if (issues.length === 0) return;
+  const testCount = new Set(issues.map((issue) => issue.testTitle)).size;
+  console.warn(`⚠️ ${labels.summary(issues.length, testCount)}`);
+  for (const issue of issues) console.warn(`  - "${issue.testTitle}": ${describeIssue(issue, labels)}`);
+}
+
+// Fonction pour générer la section HTML du rapport de validation des tags
+export function renderTagValidationHtml(issues: TagIssue[], labels: TagValidationLabels): string {
+  if (issues.length === 0) return "";
+  return `
+    <div class="tag-validation" style="max-width:900px;margin:0 auto 24px auto;background:#fff3cd;border:1px solid #f0c36d;border-radius:8px;padding:12px 20px;font-size:0.95em;">
+      <b>⚠️ ${escapeHtml(labels.title(issues.length))}</b>
+      <ul style="margin:6px 0 0 0;">
+        ${issues.map((issue) => `<li>${escapeHtml(issue.testTitle)} — ${escapeHtml(describeIssue(issue, labels))}</li>`).join("")}
+      </ul>
+    </div>
+  `;
+}
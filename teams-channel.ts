@@ -0,0 +1,335 @@
+import axios from "axios";
+import {
+  FailedTestSummary,
+  NotificationChannel,
+  RetryPolicy,
+  RunSummary,
+  failureGroups,
+  describeRunTiming,
+  hasFailures,
+  summaryHeadline,
+  summaryLabel,
+} from "./notifications";
+import { describeAttempts } from "./report-model";
+import { describeTrend } from "./run-history";
+import { formatTagValue } from "./tag-schema";
+import { describeClusterDimensions } from "./failure-clusters";
+
+export interface TeamsChannelOptions {
+  /** Nom du canal dans les logs (défaut: "teams") */
+  name?: string;
+  enabled?: boolean;
+  retry?: RetryPolicy;
+  /** URL du webhook entrant Teams ou du flux Workflows */
+  webhookUrl?: string;
+  /** Taille max d'un message en octets, Teams refuse au-delà de ~28 Ko */
+  maxPayloadBytes?: number;
+  /** Nombre max de messages envoyés, les échecs restants sont résumés avec un lien vers le rapport */
+  maxMessages?: number;
+  /** Longueur max de l'erreur affichée pour chaque test */
+  maxErrorLength?: number;
+}
+
+const DEFAULT_MAX_PAYLOAD_BYTES = 25 * 1024;
+const DEFAULT_MAX_MESSAGES = 5;
+const DEFAULT_MAX_ERROR_LENGTH = 300;
+const MAX_FAILURE_CAUSES = 5;
+
+type AdaptiveElement = { [key: string]: unknown };
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+function payloadSize(value: unknown): number {
+  return Buffer.byteLength(JSON.stringify(value), "utf-8");
+}
+
+function textBlock(text: string, extra: AdaptiveElement = {}): AdaptiveElement {
+  return { type: "TextBlock", text, wrap: true, ...extra };
+}
+
+// Fonction pour envelopper le corps d'une Adaptive Card dans un message compatible webhook / Workflows
+function adaptiveCardMessage(body: AdaptiveElement[], summary: RunSummary) {
+  const reportLink = summary.reportUrl
+    ? [{ type: "Action.OpenUrl", title: summary.i18n.messages.notification.openFullReport, url: summary.reportUrl }]
+    : [];
+  return {
+    type: "message",
+    attachments: [
+      {
+        contentType: "application/vnd.microsoft.card.adaptive",
+        contentUrl: null,
+        content: {
+          $schema: "http://adaptivecards.io/schemas/adaptive-card.json",
+          type: "AdaptiveCard",
+          version: "1.4",
+          msteams: { width: "Full" },
+          body,
+          ...(reportLink.length ? { actions: reportLink } : {}),
+        },
+      },
+    ],
+  };
+}
+
+// Fonction pour décrire un test en échec dans une carte, chaque texte étant limité à maxTextLength
+function failedTestElement(
+  summary: RunSummary,
+  test: FailedTestSummary,
+  keys: string[],
+  maxTextLength: number
+): AdaptiveElement {
+  const { i18n } = summary;
+  const { common } = i18n.messages;
+  const facts = [
+    ...(test.projectName ? [{ title: common.project, value: test.projectName }] : []),
+    { title: common.file, value: test.location },
+    { title: common.time, value: `${i18n.formatNumber(test.duration)}ms` },
+    ...keys.map((key) => ({ title: summaryLabel(summary, key), value: formatTagValue(test.dimensions[key]) })),
+    ...(test.expected.length ? [{ title: common.expected, value: test.expected.join(" | ") }] : []),
+    ...(test.actual.length ? [{ title: common.actual, value: test.actual.join(" | ") }] : []),
+  ].map((fact) => ({ title: fact.title, value: truncate(fact.value, maxTextLength) }));
+  return {
+    type: "Container",
+    separator: true,
+    items: [
+      textBlock(`🧪 **${truncate(test.title, maxTextLength)}**${test.trend ? ` — ${describeTrend(test.trend, i18n.messages.trend)}` : ""}`),
+      { type: "FactSet", facts },
+      textBlock(truncate(test.rawError.replace(/\n/g, " "), maxTextLength), {
+        fontType: "Monospace",
+        color: "Attention",
+        size: "Small",
+      }),
+    ],
+  };
+}
+
+// Fonction pour construire une section repliable : un bouton affiche ou masque la liste des tests
+function collapsibleSection(id: string, title: string, items: AdaptiveElement[]): AdaptiveElement {
+  return {
+    type: "Container",
+    separator: true,
+    items: [
+      {
+        type: "ActionSet",
+        actions: [{ type: "Action.ToggleVisibility", title, targetElements: [id] }],
+      },
+      { type: "Container", id, isVisible: false, items },
+    ],
+  };
+}
+
+// Fonction pour construire l'en-tête de la carte : titre et compteurs du run
+function summaryElements(summary: RunSummary, part?: string): AdaptiveElement[] {
+  const { run, notification } = summary.i18n.messages;
+  return [
+    textBlock(`${summaryHeadline(summary)}${part ? ` (${part})` : ""}`, {
+      size: "Large",
+      weight: "Bolder",
+      color: hasFailures(summary) ? "Attention" : "Good",
+    }),
+    textBlock(notification.generatedOn(summary.i18n.formatDate(summary.generatedAt)), { isSubtle: true, spacing: "None" }),
+    {
+      type: "FactSet",
+      facts: [
+        { title: notification.totalFailed, value: `${summary.totalFailed}` },
+        { title: notification.flaky, value: `${summary.flakyTests.length}` },
+        { title: notification.newFailures, value: `${summary.newFailures}` },
+        { title: notification.fixed, value: `${summary.fixedTests.length}` },
+        { title: notification.describeBlocks, value: `${summary.failedTests.size}` },
+        { title: run.runDuration, value: describeRunTiming(summary) },
+      ],
+    },
+  ];
+}
+
+// Fonction pour la section des erreurs hors test (global setup, crash de worker)
+function globalErrorsElements(summary: RunSummary, maxErrorLength: number): AdaptiveElement[] {
+  if (summary.globalErrors.length === 0) return [];
+  return [
+    textBlock(`🚨 ${summary.i18n.messages.run.globalErrors(summary.globalErrors.length)}`, {
+      weight: "Bolder",
+      color: "Attention",
+      separator: true,
+    }),
+    ...summary.globalErrors.map((error) =>
+      textBlock(truncate(error.rawError, maxErrorLength), { fontType: "Monospace", size: "Small", spacing: "None" })
+    ),
+  ];
+}
+
+// Fonction pour la section "Top failure causes" : erreurs normalisées les plus fréquentes
+function failureCausesElements(summary: RunSummary, maxErrorLength: number): AdaptiveElement[] {
+  if (summary.failureClusters.length === 0) return [];
+  const labels = summary.i18n.messages.failureClusters;
+  return [
+    textBlock(`🧩 ${labels.title(summary.failureClusters.length)}`, {
+      weight: "Bolder",
+      separator: true,
+    }),
+    ...summary.failureClusters.slice(0, MAX_FAILURE_CAUSES).map((cluster) => ({
+      type: "Container",
+      items: [
+        textBlock(`**${labels.tests(cluster.tests.length)}**${cluster.dimensions.length ? ` — ${describeClusterDimensions(cluster)}` : ""}`),
+        textBlock(truncate(cluster.signature, maxErrorLength), { fontType: "Monospace", size: "Small", spacing: "None" }),
+        textBlock(truncate(cluster.tests.map((t) => t.title).join(", "), maxErrorLength), {
+          isSubtle: true,
+          size: "Small",
+          spacing: "None",
+        }),
+      ],
+    })),
+  ];
+}
+
+// Fonction pour le renvoi vers le rapport complet quand tout ne tient pas dans les messages
+function seeFullReportElement(summary: RunSummary, omittedTests: number): AdaptiveElement {
+  const { notification } = summary.i18n.messages;
+  const target = summary.reportUrl
+    ? `[${notification.seeFullReport}](${summary.reportUrl})`
+    : summary.reportPath
+      ? `${notification.seeFullReport}: ${summary.reportPath}`
+      : notification.seeEmailedReport;
+  return textBlock(`⚠️ ${notification.moreNotShown(omittedTests, target)}`, { weight: "Bolder", separator: true });
+}
+
+// Fonction pour l'en-tête des messages suivants, numéroté une fois le nombre de messages connu
+function continuationHeader(summary: RunSummary, index: number, total: number): AdaptiveElement {
+  return textBlock(`❌ ${summary.title} (${index}/${total})`, { weight: "Bolder" });
+}
+
+/**
+ * Fonction pour construire les messages Adaptive Card du run.
+ * Chaque describe est une section repliable. Les tests sont répartis sur plusieurs messages pour rester
+ * sous maxPayloadBytes, une section coupée continue dans le message suivant ("partie 2") ;
+ * au-delà de maxMessages, le reste est résumé par un lien vers le rapport.
+ */
+export function buildTeamsAdaptiveCards(summary: RunSummary, options: TeamsChannelOptions = {}) {
+  const maxPayloadBytes = options.maxPayloadBytes ?? DEFAULT_MAX_PAYLOAD_BYTES;
+  const maxMessages = options.maxMessages ?? DEFAULT_MAX_MESSAGES;
+  const maxErrorLength = options.maxErrorLength ?? DEFAULT_MAX_ERROR_LENGTH;
+  const { run, notification } = summary.i18n.messages;
+
+  // Chaque ajout est mesuré sur le message réel (enveloppe comprise), avec la place du renvoi vers le rapport.
+  // Les en-têtes sont mesurés avec la numérotation la plus longue possible, posée seulement à la fin.
+  const footerReserve = payloadSize(seeFullReportElement(summary, summary.totalFailed)) + 1;
+  const fits = (body: AdaptiveElement[]) => payloadSize(adaptiveCardMessage(body, summary)) + footerReserve <= maxPayloadBytes;
+  const newMessageHeader = () => continuationHeader(summary, maxMessages, maxMessages);
+
+  // Groupes à répartir : un par describe, puis les tests flaky
+  const groups: Array<{
+    id: string;
+    titleOf: (part: number) => string;
+    items: Array<{ label: string; render: (maxTextLength: number) => AdaptiveElement; testCount: number }>;
+  }> = failureGroups(summary).map(({ describeName, tests, countLabel }, groupIndex) => {
+    const keys = summary.dimensionKeysByDescribe[describeName] || [];
+    return {
+      id: `describe-${groupIndex}`,
+      titleOf: (part: number) => `${truncate(describeName, 200)} (${countLabel})${part > 1 ? ` — ${notification.part(part)}` : ""}`,
+      items: tests.map((test) => ({
+        label: `🧪 ${test.title}`,
+        render: (maxTextLength: number) => failedTestElement(summary, test, keys, maxTextLength),
+        testCount: 1,
+      })),
+    };
+  });
+  if (summary.flakyTests.length) {
+    groups.push({
+      id: "flaky-tests",
+      titleOf: (part) => `🔁 ${run.flakyTitle(summary.flakyTests.length)}${part > 1 ? ` — ${notification.part(part)}` : ""}`,
+      items: summary.flakyTests.map((t) => ({
+        label: `🧪 ${t.title}`,
+        render: (maxTextLength: number) =>
+          textBlock(truncate(`🧪 **${t.title}** — ${t.location} — ${describeAttempts(t)}`, maxTextLength)),
+        testCount: 0,
+      })),
+    });
+  }
+
+  const messages: AdaptiveElement[][] = [];
+  let body = [
+    ...summaryElements(summary, `${maxMessages}/${maxMessages}`),
+    ...globalErrorsElements(summary, maxErrorLength),
+    ...failureCausesElements(summary, maxErrorLength),
+  ];
+  let omittedTests = 0;
+  let truncated = false;
+
+  for (const group of groups) {
+    let part = 1;
+    let elements: AdaptiveElement[] = [];
+    const section = (content: AdaptiveElement[]) => collapsibleSection(`${group.id}-${part}`, group.titleOf(part), content);
+
+    for (const item of group.items) {
+      if (truncated) {
+        omittedTests += item.testCount;
+        continue;
+      }
+      let element = item.render(maxErrorLength);
+      if (fits([...body, section([...elements, element])])) {
+        elements.push(element);
+        continue;
+      }
+
+      // Le message courant est plein : la section y est fermée et continue dans un nouveau message
+      if (elements.length) {
+        body.push(section(elements));
+        elements = [];
+        part++;
+      }
+      if (messages.length + 1 >= maxMessages) {
+        truncated = true;
+        omittedTests += item.testCount;
+        continue;
+      }
+      messages.push(body);
+      body = [newMessageHeader()];
+
+      // Un test trop gros à lui seul pour un message : ses textes sont raccourcis jusqu'à tenir
+      for (let length = Math.floor(maxErrorLength / 2); !fits([...body, section([element])]) && length >= 20; length = Math.floor(length / 2)) {
+        element = item.render(length);
+      }
+      if (!fits([...body, section([element])])) element = textBlock(truncate(item.label, 100));
+      elements.push(element);
+    }
+    if (elements.length) body.push(section(elements));
+  }
+  if (omittedTests) body.push(seeFullReportElement(summary, omittedTests));
+  messages.push(body);
+
+  return messages.map((elements, index) => {
+    elements[0] = index === 0
+      ? summaryElements(summary, messages.length > 1 ? `1/${messages.length}` : undefined)[0]
+      : continuationHeader(summary, index + 1, messages.length);
+    return adaptiveCardMessage(elements, summary);
+  });
+}
+
+// Canal Microsoft Teams via un webhook entrant ou un flux Workflows
+export class TeamsChannel implements NotificationChannel {
+  name: string;
+  enabled?: boolean;
+  retry: RetryPolicy;
+  // Nombre de messages déjà postés par résumé : une nouvelle tentative reprend au message en échec
+  // au lieu de reposter les précédents, qui apparaîtraient en double dans le canal
+  private posted = new WeakMap<RunSummary, number>();
+
+  constructor(private options: TeamsChannelOptions) {
+    this.name = options.name ?? "teams";
+    // Sans URL de webhook le canal est désactivé
+    this.enabled = options.enabled ?? Boolean(options.webhookUrl);
+    this.retry = options.retry || { attempts: 2, delayMs: 1000 };
+  }
+
+  async send(summary: RunSummary) {
+    if (!this.options.webhookUrl) throw new Error("Teams webhookUrl (WEB_HOOK_URL) is not defined");
+    const messages = buildTeamsAdaptiveCards(summary, this.options);
+    // Envoi séquentiel pour conserver l'ordre des messages dans le canal
+    for (let index = this.posted.get(summary) ?? 0; index < messages.length; index++) {
+      await axios.post(this.options.webhookUrl, messages[index]);
+      this.posted.set(summary, index + 1);
+    }
+    if (messages.length > 1) return `${messages.length} messages`;
+  }
+}
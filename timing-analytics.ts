@@ -0,0 +1,298 @@
+import { TestRecord } from "./report-model";
+import { HistoryRun } from "./run-history";
+import { escapeHtml } from "./html-escape";
+import { TagSchema, dimensionLabel, formatTagValue } from "./tag-schema";
+
+// Options de la section performance des rapports
+export interface PerformanceOptions {
+  /** Nombre de tests listés parmi les plus lents (défaut: 10) */
+  slowestTests?: number;
+  /** Part du timeout à partir de laquelle un test est signalé comme proche du timeout (défaut: 0.8) */
+  nearTimeoutRatio?: number;
+  /** Un test est signalé plus lent que d'habitude au-delà de ce multiple de sa durée médiane passée (défaut: 1.5) */
+  regressionRatio?: number;
+  /** Nombre minimum de runs passés réussis pour établir la durée de référence d'un test (défaut: 3) */
+  minBaselineRuns?: number;
+  /** Dimensions du schéma de tags pour lesquelles les percentiles sont calculés (défaut: dimensions obligatoires à valeur unique) */
+  groupByDimensions?: string[];
+}
+
+// Percentiles de durée d'un groupe de tests, en ms
+export interface DurationPercentiles {
+  count: number;
+  p50: number;
+  p90: number;
+  p99: number;
+  max: number;
+}
+
+export interface TimingAnalytics {
+  /** Durée réelle du run (horloge murale), en ms */
+  wallClock: number;
+  workers?: number;
+  /** Somme des durées de toutes les tentatives, en ms */
+  totalTestDuration: number;
+  slowest: Array<{ record: TestRecord; duration: number }>;
+  byDescribe: { [describeName: string]: DurationPercentiles };
+  /** Percentiles par valeur de chaque dimension de groupByDimensions */
+  byDimension: Array<{ name: string; label: string; groups: { [value: string]: DurationPercentiles } }>;
+  nearTimeout: Array<{ record: TestRecord; duration: number; timeout: number; timedOut: boolean }>;
+  /** Tests nettement plus lents que leur durée médiane dans l'historique */
+  regressions: Array<{ record: TestRecord; duration: number; baseline: number }>;
+}
+
+// En dessous de cet écart, une régression de durée est considérée comme du bruit
+const MIN_REGRESSION_DELTA_MS = 500;
+const MAX_GROUP_ROWS = 20;
+
+// Fonction pour formater une durée : "850 ms", "12.3 s" ("12,3 s" en français), "4m 05s", "1h 02m"
+export function formatDuration(ms: number, locale = "en-GB"): string {
+  if (ms < 1000) return `${Math.round(ms)} ms`;
+  if (ms < 60000) return `${(ms / 1000).toLocaleString(locale, { minimumFractionDigits: 1, maximumFractionDigits: 1 })} s`;
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 60) return `${minutes}m ${String(Math.floor((ms % 60000) / 1000)).padStart(2, "0")}s`;
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, "0")}m`;
+}
+
+// Fonction pour calculer un percentile (rang le plus proche) sur des valeurs non triées
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1))];
+}
+
+function durationPercentiles(values: number[]): DurationPercentiles {
+  return {
+    count: values.length,
+    p50: percentile(values, 50),
+    p90: percentile(values, 90),
+    p99: percentile(values, 99),
+    max: values.length ? Math.max(...values) : 0,
+  };
+}
+
+// Durée d'un test pour les analyses : sa tentative la plus longue (les retries ne s'additionnent pas)
+function longestAttempt(record: TestRecord): number {
+  return Math.max(0, ...record.attempts.map((attempt) => attempt.duration));
+}
+
+// Un test compte dans chacun de ses groupes (dimension à valeurs multiples)
+function percentilesBy(records: TestRecord[], keys: (record: TestRecord) => string[]): { [name: string]: DurationPercentiles } {
+  const groups = new Map<string, number[]>();
+  for (const record of records) {
+    for (const key of keys(record)) {
+      const durations = groups.get(key) || [];
+      durations.push(longestAttempt(record));
+      groups.set(key, durations);
+    }
+  }
+  return Object.fromEntries(Array.from(groups.entries()).map(([name, durations]) => [name, durationPercentiles(durations)]));
+}
+
+// Fonction pour calculer la durée de référence de chaque test : médiane de ses runs passés réussis
+export function durationBaseline(previousRuns: HistoryRun[], minRuns = 3): Map<string, number> {
+  const samples = new Map<string, number[]>();
+  for (const run of previousRuns) {
+    for (const [testId, entry] of Object.entries(run.tests)) {
+      if (entry.outcome !== "expected") continue;
+      samples.set(testId, [...(samples.get(testId) || []), entry.duration]);
+    }
+  }
+  const baseline = new Map<string, number>();
+  for (const [testId, durations] of samples) {
+    if (durations.length >= minRuns) baseline.set(testId, percentile(durations, 50));
+  }
+  return baseline;
+}
+
+/**
+ * Fonction pour calculer les statistiques de durée du run.
+ * Les tests ignorés sont exclus des percentiles et des classements.
+ */
+export function computeTimingAnalytics(
+  records: TestRecord[],
+  run: { duration: number; workers?: number; previousRuns?: HistoryRun[] },
+  options: PerformanceOptions,
+  tagSchema: TagSchema
+): TimingAnalytics {
+  const executed = records.filter((record) => record.outcome !== "skipped");
+  const nearTimeoutRatio = options.nearTimeoutRatio ?? 0.8;
+  const regressionRatio = options.regressionRatio ?? 1.5;
+  const baseline = durationBaseline(run.previousRuns || [], options.minBaselineRuns ?? 3);
+  const groupByDimensions = options.groupByDimensions
+    ?? tagSchema.filter((dimension) => dimension.required && !dimension.multiple).map((dimension) => dimension.name);
+
+  return {
+    wallClock: run.duration,
+    workers: run.workers,
+    totalTestDuration: records.reduce((sum, record) => sum + record.duration, 0),
+    slowest: executed
+      .map((record) => ({ record, duration: longestAttempt(record) }))
+      .sort((a, b) => b.duration - a.duration)
+      .slice(0, options.slowestTests ?? 10),
+    byDescribe: percentilesBy(executed, (record) => [record.describeName]),
+    byDimension: groupByDimensions.map((name) => ({
+      name,
+      label: dimensionLabel(tagSchema, name),
+      groups: percentilesBy(executed, (record) => {
+        const value = record.dimensions[name];
+        return Array.isArray(value) ? value : [formatTagValue(value)];
+      }),
+    })),
+    nearTimeout: executed
+      .filter((record) => record.timeout > 0)
+      .map((record) => ({
+        record,
+        duration: longestAttempt(record),
+        timeout: record.timeout,
+        timedOut: record.attempts.some((attempt) => attempt.status === "timedOut"),
+      }))
+      .filter((entry) => entry.timedOut || entry.duration >= entry.timeout * nearTimeoutRatio)
+      .sort((a, b) => b.duration / b.timeout - a.duration / a.timeout),
+    regressions: executed
+      .filter((record) => record.outcome === "expected" && baseline.has(record.id))
+      .map((record) => ({ record, duration: longestAttempt(record), baseline: baseline.get(record.id) }))
+      .filter((entry) => entry.duration >= entry.baseline * regressionRatio && entry.duration - entry.baseline >= MIN_REGRESSION_DELTA_MS)
+      .sort((a, b) => b.duration / b.baseline - a.duration / a.baseline),
+  };
+}
+
+// Fonction pour valider les options de performance, retourne la liste des problèmes
+export function validatePerformanceOptions(options: PerformanceOptions, prefix = "performance"): string[] {
+  const problems: string[] = [];
+  if (options.slowestTests !== undefined && (!Number.isInteger(options.slowestTests) || options.slowestTests < 0)) {
+    problems.push(`${prefix}.slowestTests must be a non-negative integer (got "${options.slowestTests}")`);
+  }
+  if (options.nearTimeoutRatio !== undefined && !(options.nearTimeoutRatio > 0 && options.nearTimeoutRatio <= 1)) {
+    problems.push(`${prefix}.nearTimeoutRatio must be between 0 (excluded) and 1 (got "${options.nearTimeoutRatio}")`);
+  }
+  if (options.regressionRatio !== undefined && !(options.regressionRatio > 1)) {
+    problems.push(`${prefix}.regressionRatio must be greater than 1 (got "${options.regressionRatio}")`);
+  }
+  if (options.minBaselineRuns !== undefined && (!Number.isInteger(options.minBaselineRuns) || options.minBaselineRuns < 1)) {
+    problems.push(`${prefix}.minBaselineRuns must be a positive integer (got "${options.minBaselineRuns}")`);
+  }
+  if (options.groupByDimensions !== undefined && (!Array.isArray(options.groupByDimensions) || options.groupByDimensions.some((name) => !name))) {
+    problems.push(`${prefix}.groupByDimensions must be a list of tag schema dimension names`);
+  }
+  return problems;
+}
+
+// Styles de la section performance
+export const timingAnalyticsStyles = `
+  .performance { background: #fff; border-radius: 8px; box-shadow: 0 1px 4px #ccc; padding: 14px 20px; max-width: 900px; margin: 16px auto; }
+  .performance h2 { color: #0e4ba1; margin: 0 0 8px 0; font-size: 1.2em; }
+  .performance h3 { color: #0e4ba1; margin: 14px 0 6px 0; font-size: 1em; }
+  .performance .timing-facts span { display: inline-block; margin-right: 18px; }
+  .performance table { border-collapse: collapse; width: 100%; font-size: 13px; }
+  .performance th, .performance td { border: 1px solid #e0e0e0; padding: 5px 8px; text-align: left; }
+  .performance th { background: #0e4ba1; color: #fff; }
+  .performance td.num { text-align: right; white-space: nowrap; }
+  .performance .warn { color: #e67e22; font-weight: bold; }
+  .performance .ko { color: #d63031; font-weight: bold; }
+`;
+
+// Libellés de la section performance, dans la langue du rapport
+export interface PerformanceLabels {
+  title: string;
+  wallClock: string;
+  workers: string;
+  totalTestDuration: string;
+  parallelism: string;
+  slowest: string;
+  test: string;
+  group: string;
+  duration: string;
+  byDescribe: string;
+  byDimension: (dimension: string) => string;
+  count: string;
+  max: string;
+  nearTimeout: string;
+  timeout: string;
+  timedOut: string;
+  regressions: string;
+  baseline: string;
+  more: (count: number) => string;
+}
+
+function percentilesTable(
+  groups: { [name: string]: DurationPercentiles },
+  labels: PerformanceLabels,
+  nameLabel: string,
+  locale: string
+): string {
+  const names = Object.keys(groups).sort((a, b) => groups[b].p90 - groups[a].p90);
+  if (names.length === 0) return "";
+  return `
+      <table>
+        <tr><th>${escapeHtml(nameLabel)}</th><th>${escapeHtml(labels.count)}</th><th>p50</th><th>p90</th><th>p99</th><th>${escapeHtml(labels.max)}</th></tr>
+        ${names.slice(0, MAX_GROUP_ROWS).map((name) => {
+          const stats = groups[name];
+          return `
+        <tr>
+          <td>${escapeHtml(name)}</td>
+          <td class="num">${stats.count}</td>
+          <td class="num">${formatDuration(stats.p50, locale)}</td>
+          <td class="num">${formatDuration(stats.p90, locale)}</td>
+          <td class="num">${formatDuration(stats.p99, locale)}</td>
+          <td class="num">${formatDuration(stats.max, locale)}</td>
+        </tr>`;
+        }).join("")}
+      </table>
+      ${names.length > MAX_GROUP_ROWS ? `<div>${escapeHtml(labels.more(names.length - MAX_GROUP_ROWS))}</div>` : ""}`;
+}
+
+// Fonction pour générer la section performance des rapports HTML
+export function renderPerformanceHtml(analytics: TimingAnalytics, labels: PerformanceLabels, locale: string): string {
+  const parallelism = analytics.wallClock > 0 ? analytics.totalTestDuration / analytics.wallClock : 0;
+  return `
+    <div class="performance">
+      <h2>⏱️ ${escapeHtml(labels.title)}</h2>
+      <div class="timing-facts">
+        <span><b>${escapeHtml(labels.wallClock)} :</b> ${formatDuration(analytics.wallClock, locale)}</span>
+        ${analytics.workers ? `<span><b>${escapeHtml(labels.workers)} :</b> ${analytics.workers}</span>` : ""}
+        <span><b>${escapeHtml(labels.totalTestDuration)} :</b> ${formatDuration(analytics.totalTestDuration, locale)}</span>
+        <span><b>${escapeHtml(labels.parallelism)} :</b> ×${parallelism.toLocaleString(locale, { minimumFractionDigits: 1, maximumFractionDigits: 1 })}</span>
+      </div>
+      ${analytics.slowest.length ? `
+      <h3>🐢 ${escapeHtml(labels.slowest)}</h3>
+      <table>
+        <tr><th>${escapeHtml(labels.test)}</th><th>${escapeHtml(labels.group)}</th><th>${escapeHtml(labels.duration)}</th></tr>
+        ${analytics.slowest.map(({ record, duration }) => `
+        <tr>
+          <td>${escapeHtml(record.title)}<br><small>📁 ${escapeHtml(record.location)}</small></td>
+          <td>${escapeHtml(record.describeName)}</td>
+          <td class="num">${formatDuration(duration, locale)}</td>
+        </tr>`).join("")}
+      </table>` : ""}
+      ${analytics.nearTimeout.length ? `
+      <h3>⚠️ ${escapeHtml(labels.nearTimeout)} (${analytics.nearTimeout.length})</h3>
+      <table>
+        <tr><th>${escapeHtml(labels.test)}</th><th>${escapeHtml(labels.duration)}</th><th>${escapeHtml(labels.timeout)}</th><th>%</th></tr>
+        ${analytics.nearTimeout.map(({ record, duration, timeout, timedOut }) => `
+        <tr>
+          <td>${escapeHtml(record.title)}${timedOut ? ` <span class="ko">${escapeHtml(labels.timedOut)}</span>` : ""}<br><small>📁 ${escapeHtml(record.location)}</small></td>
+          <td class="num">${formatDuration(duration, locale)}</td>
+          <td class="num">${formatDuration(timeout, locale)}</td>
+          <td class="num ${timedOut ? "ko" : "warn"}">${Math.round((duration / timeout) * 100)}%</td>
+        </tr>`).join("")}
+      </table>` : ""}
+      ${analytics.regressions.length ? `
+      <h3>📈 ${escapeHtml(labels.regressions)} (${analytics.regressions.length})</h3>
+      <table>
+        <tr><th>${escapeHtml(labels.test)}</th><th>${escapeHtml(labels.duration)}</th><th>${escapeHtml(labels.baseline)}</th><th>×</th></tr>
+        ${analytics.regressions.map(({ record, duration, baseline }) => `
+        <tr>
+          <td>${escapeHtml(record.title)}<br><small>📁 ${escapeHtml(record.location)}</small></td>
+          <td class="num">${formatDuration(duration, locale)}</td>
+          <td class="num">${formatDuration(baseline, locale)}</td>
+          <td class="num warn">×${(duration / baseline).toLocaleString(locale, { minimumFractionDigits: 1, maximumFractionDigits: 1 })}</td>
+        </tr>`).join("")}
+      </table>` : ""}
+      <h3>📊 ${escapeHtml(labels.byDescribe)}</h3>
+      ${percentilesTable(analytics.byDescribe, labels, labels.group, locale)}
+      ${analytics.byDimension.map((dimension) => `
+      <h3>🏷️ ${escapeHtml(labels.byDimension(dimension.label))}</h3>
+      ${percentilesTable(dimension.groups, labels, dimension.label, locale)}`).join("")}
+    </div>`;
+}
@@ -0,0 +1,105 @@
+import axios from "axios";
+import { NotificationChannel, RetryPolicy, RunSummary, failureGroups } from "./notifications";
+import { describeAttempts } from "./report-model";
+
+export interface WebhookChannelOptions {
+  enabled?: boolean;
+  retry?: RetryPolicy;
+  /** URL qui reçoit le résumé du run en JSON (POST) */
+  url?: string;
+  headers?: { [name: string]: string };
+  /**
+   * Modèle du corps JSON envoyé, évalué sur le payload par défaut (voir buildWebhookPayload).
+   * Une chaîne exactement égale à "{{chemin}}" est remplacée par la valeur brute (objet, tableau, nombre),
+   * sinon chaque "{{chemin}}" est interpolé en texte. Une fonction reçoit le payload et retourne le corps.
+   */
+  template?: unknown | ((payload: WebhookPayload) => unknown);
+}
+
+export type WebhookPayload = ReturnType<typeof buildWebhookPayload>;
+
+// Fonction pour sérialiser le résumé du run en JSON simple
+export function buildWebhookPayload(summary: RunSummary) {
+  return {
+    title: summary.title,
+    generatedAt: summary.generatedAt.toISOString(),
+    status: summary.status,
+    stats: summary.stats,
+    totalFailed: summary.totalFailed,
+    runDuration: summary.runDuration,
+    workers: summary.workers,
+    newFailures: summary.newFailures,
+    reportPath: summary.reportPath,
+    globalErrors: summary.globalErrors.map((error) => ({ error: error.rawError, location: error.sourceLocation })),
+    failures: failureGroups(summary).map(({ describeName, tests, countLabel }) => ({
+      describeName,
+      countLabel,
+      tests: tests.map((t) => ({
+        id: t.id,
+        title: t.title,
+        location: t.location,
+        dimensions: t.dimensions,
+        tags: t.tags,
+        duration: t.duration,
+        trend: t.trend,
+        error: t.rawError,
+        expected: t.expected,
+        actual: t.actual,
+      })),
+    })),
+    flaky: summary.flakyTests.map((t) => ({ id: t.id, title: t.title, location: t.location, attempts: describeAttempts(t) })),
+    fixed: summary.fixedTests.map((t) => ({ id: t.id, title: t.title, location: t.location })),
+  };
+}
+
+// Fonction pour résoudre un chemin "a.b.0.c" dans le payload
+function resolvePath(payload: unknown, path: string): unknown {
+  return path
+    .split(".")
+    .filter(Boolean)
+    .reduce<unknown>(
+      (value, key) => (value && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined),
+      payload
+    );
+}
+
+// Fonction pour appliquer le modèle utilisateur au payload du run
+export function renderWebhookTemplate(template: unknown, payload: WebhookPayload): unknown {
+  if (typeof template === "function") return template(payload);
+  if (typeof template === "string") {
+    const exact = template.match(/^\{\{\s*([\w.$-]*)\s*\}\}$/);
+    if (exact) return resolvePath(payload, exact[1]);
+    return template.replace(/\{\{\s*([\w.$-]*)\s*\}\}/g, (_, path: string) => {
+      const value = resolvePath(payload, path);
+      if (value === undefined || value === null) return "";
+      return typeof value === "object" ? JSON.stringify(value) : String(value);
+    });
+  }
+  if (Array.isArray(template)) return template.map((item) => renderWebhookTemplate(item, payload));
+  if (template && typeof template === "object") {
+    return Object.fromEntries(
+      Object.entries(template).map(([key, value]) => [key, renderWebhookTemplate(value, payload)])
+    );
+  }
+  return template;
+}
+
+// Canal webhook générique : POST du résumé en JSON
+export class WebhookChannel implements NotificationChannel {
+  name = "webhook";
+  enabled?: boolean;
+  retry: RetryPolicy;
+
+  constructor(private options: WebhookChannelOptions) {
+    // Sans URL le canal est désactivé
+    this.enabled = options.enabled ?? Boolean(options.url);
+    this.retry = options.retry || { attempts: 2, delayMs: 1000 };
+  }
+
+  async send(summary: RunSummary) {
+    if (!this.options.url) throw new Error("Webhook url is not defined");
+    const payload = buildWebhookPayload(summary);
+    const body = this.options.template === undefined ? payload : renderWebhookTemplate(this.options.template, payload);
+    await axios.post(this.options.url, body, { headers: this.options.headers });
+  }
+}
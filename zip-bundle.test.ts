@@ -0,0 +1,88 @@
+import { expect, test } from "@playwright/test";
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import yauzl from "yauzl";
+import { MESSAGES } from "./i18n";
+import { buildReportBundle } from "./zip-bundle";
+
+const labels = MESSAGES.en.bundle;
+
+// Fonction pour lire toutes les entrées d'une archive zip : nom dans l'archive -> contenu
+function readZip(zipPath: string): Promise<Map<string, Buffer>> {
+  return new Promise((resolve, reject) => {
+    yauzl.open(zipPath, { lazyEntries: true }, (error, zip) => {
+      if (error) return reject(error);
+      const entries = new Map<string, Buffer>();
+      zip.on("entry", (entry: yauzl.Entry) => {
+        zip.openReadStream(entry, (streamError, stream) => {
+          if (streamError) return reject(streamError);
+          const chunks: Buffer[] = [];
+          stream.on("data", (chunk: Buffer) => chunks.push(chunk));
+          stream.on("end", () => {
+            entries.set(entry.fileName, Buffer.concat(chunks));
+            zip.readEntry();
+          });
+        });
+      });
+      zip.on("end", () => resolve(entries));
+      zip.on("error", reject);
+      zip.readEntry();
+    });
+  });
+}
+
+// Fonction pour écrire un fichier du rapport dans le dossier de sortie du test
+function writeFile(dir: string, relativePath: string, data: Buffer | string): string {
+  const file = path.join(dir, relativePath);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, data);
+  return file;
+}
+
+test("the report and its attachments are zipped with their relative paths and contents", async ({}, testInfo) => {
+  const dir = testInfo.outputDir;
+  const htmlPath = writeFile(dir, "failed-report.html", "<html><img src=\"attachments/t1/0-screenshot.png\"></html>");
+  // Contenu peu compressible, comme une capture
+  const screenshot = crypto.randomBytes(64 * 1024);
+  const attachments = [
+    { relativePath: "attachments/t1/0-screenshot.png", data: screenshot },
+    { relativePath: "attachments/t2/1-trace.txt", data: Buffer.from("trace ".repeat(5000)) },
+  ];
+  const copied = attachments.map(({ relativePath, data }) => ({
+    name: path.basename(relativePath),
+    contentType: "application/octet-stream",
+    kind: "other" as const,
+    relativePath,
+    absolutePath: writeFile(dir, relativePath, data),
+    size: data.length,
+  }));
+
+  const bundle = await buildReportBundle(htmlPath, copied, 10 * 1024 * 1024, labels, "en-GB");
+
+  expect(bundle.omitted).toBeUndefined();
+  expect(bundle.path).toBe(path.join(dir, "failed-report.zip"));
+  expect(bundle.size).toBe(fs.statSync(bundle.path).size);
+  expect(bundle.files).toEqual(["failed-report.html", ...attachments.map((a) => a.relativePath)]);
+
+  const entries = await readZip(bundle.path);
+  expect(Array.from(entries.keys())).toEqual(bundle.files);
+  expect(entries.get("failed-report.html")).toEqual(fs.readFileSync(htmlPath));
+  for (const { relativePath, data } of attachments) expect(entries.get(relativePath)).toEqual(data);
+});
+
+test("a zip over the size limit is not attached", async ({}, testInfo) => {
+  const dir = testInfo.outputDir;
+  const htmlPath = writeFile(dir, "failed-report.html", "<html></html>");
+  const video = crypto.randomBytes(4096);
+  const absolutePath = writeFile(dir, "attachments/t1/0-video.webm", video);
+  const copied = [
+    { name: "0-video.webm", contentType: "video/webm", kind: "video" as const, relativePath: "attachments/t1/0-video.webm", absolutePath, size: video.length },
+  ];
+
+  // Sous le double de la limite avant compression, au-dessus une fois zippé
+  const bundle = await buildReportBundle(htmlPath, copied, 2100, labels, "en-GB");
+
+  expect(bundle.path).toBeUndefined();
+  expect(bundle.omitted).toMatch(/^the zipped report is/);
+});
@@ -0,0 +1,106 @@
+import fs from "fs";
+import path from "path";
+import { pipeline } from "stream/promises";
+import { ZipFile } from "yazl";
+import { CopiedAttachment } from "./report-attachments";
+
+// Pièce jointe de l'email résolue en fin de run : le fichier à joindre, ou la raison de son absence
+export interface ReportBundle {
+  /** Fichier à joindre (rapport HTML seul ou archive zip), absent si omis */
+  path?: string;
+  size: number;
+  /** Fichiers contenus dans l'archive, chemins relatifs au rapport */
+  files: string[];
+  /** Raison pour laquelle rien n'est joint (taille, fichier manquant) */
+  omitted?: string;
+}
+
+// Raisons de l'absence de pièce jointe, dans la langue de l'email ; les tailles sont déjà formatées
+export interface BundleLabels {
+  notFound: (fileName: string) => string;
+  fileTooLarge: (fileName: string, size: string, maxSize: string) => string;
+  bundleTooLarge: (attachmentCount: number, size: string, maxSize: string) => string;
+  zipTooLarge: (size: string, maxSize: string) => string;
+  /** Raison affichée à une équipe : le rapport complet contient aussi les échecs des autres équipes */
+  otherTeams: string;
+}
+
+// Entrée d'une archive zip : le fichier sur disque et son nom dans l'archive, avec des "/"
+export interface ZipEntry {
+  name: string;
+  file: string;
+}
+
+// Fonction pour écrire une archive zip (deflate, zip64 si besoin) en lisant les fichiers en flux, retourne sa taille
+export async function writeZip(zipPath: string, entries: ZipEntry[]): Promise<number> {
+  const zip = new ZipFile();
+  for (const entry of entries) zip.addFile(entry.file, entry.name);
+  zip.end();
+  await pipeline(zip.outputStream, fs.createWriteStream(zipPath));
+  return fs.statSync(zipPath).size;
+}
+
+function formatMegabytes(bytes: number, locale: string): string {
+  return `${(bytes / (1024 * 1024)).toLocaleString(locale, { minimumFractionDigits: 1, maximumFractionDigits: 1 })} MB`;
+}
+
+// Fonction pour joindre un fichier existant tel quel, dans la limite de taille
+export function fileBundle(filePath: string, maxBytes: number, labels: BundleLabels, locale: string): ReportBundle {
+  if (!fs.existsSync(filePath)) {
+    return { size: 0, files: [], omitted: labels.notFound(path.basename(filePath)) };
+  }
+  const size = fs.statSync(filePath).size;
+  if (size > maxBytes) {
+    return {
+      size,
+      files: [path.basename(filePath)],
+      omitted: labels.fileTooLarge(path.basename(filePath), formatMegabytes(size, locale), formatMegabytes(maxBytes, locale)),
+    };
+  }
+  return { path: filePath, size, files: [path.basename(filePath)] };
+}
+
+/**
+ * Fonction pour préparer la pièce jointe de l'email à partir du rapport HTML qui vient d'être généré.
+ * Sans pièces jointes de test, le HTML est joint seul ; sinon le HTML et ses fichiers sont zippés
+ * à côté du rapport en gardant les chemins relatifs, pour que le rapport dézippé s'affiche complet.
+ */
+export async function buildReportBundle(
+  htmlPath: string,
+  attachments: CopiedAttachment[],
+  maxBytes: number,
+  labels: BundleLabels,
+  locale: string
+): Promise<ReportBundle> {
+  const files = new Map<string, string>();
+  for (const attachment of attachments) {
+    if (fs.existsSync(attachment.absolutePath)) files.set(attachment.relativePath, attachment.absolutePath);
+  }
+  if (files.size === 0) return fileBundle(htmlPath, maxBytes, labels, locale);
+
+  const htmlName = path.basename(htmlPath);
+  const names = [htmlName, ...files.keys()];
+  // Captures, vidéos et traces se compressent peu : inutile de zipper un contenu deux fois trop gros
+  const rawSize = fs.statSync(htmlPath).size + Array.from(files.values()).reduce((sum, file) => sum + fs.statSync(file).size, 0);
+  if (rawSize > maxBytes * 2) {
+    return {
+      size: rawSize,
+      files: names,
+      omitted: labels.bundleTooLarge(files.size, formatMegabytes(rawSize, locale), formatMegabytes(maxBytes, locale)),
+    };
+  }
+
+  const zipPath = htmlPath.replace(/\.html?$/i, "") + ".zip";
+  const zipSize = await writeZip(zipPath, [
+    { name: htmlName, file: htmlPath },
+    ...Array.from(files.entries()).map(([name, file]) => ({ name, file })),
+  ]);
+  if (zipSize > maxBytes) {
+    return {
+      size: zipSize,
+      files: names,
+      omitted: labels.zipTooLarge(formatMegabytes(zipSize, locale), formatMegabytes(maxBytes, locale)),
+    };
+  }
+  return { path: zipPath, size: zipSize, files: names };
+}